@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { execa } from 'execa';
+import { findFlagReferences, findWorktreeFlagReferences } from '../git-utils.ts';
+
+describe('findFlagReferences', () => {
+  let repoDir: string;
+
+  beforeEach(async () => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bye-bye-flag-references-'));
+    fs.writeFileSync(
+      path.join(repoDir, 'flags.ts'),
+      [
+        `export const NEW_CHECKOUT = 'new-checkout';`,
+        `const { newCheckout } = useFlags();`,
+        `const newCheckoutV2 = false; // not this flag`,
+        `// new-checkout is mentioned in a comment without quotes`,
+      ].join('\n')
+    );
+    fs.writeFileSync(
+      path.join(repoDir, 'billing.py'),
+      [`FLAG_NEW_CHECKOUT = "new_checkout"`, `if flags.new_checkout:`, `    pass`].join('\n')
+    );
+
+    await execa('git', ['init', '-q'], { cwd: repoDir });
+    await execa('git', ['add', '.'], { cwd: repoDir });
+    await execa(
+      'git',
+      ['-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'code'],
+      { cwd: repoDir }
+    );
+    await execa('git', ['update-ref', 'refs/remotes/origin/main', 'HEAD'], { cwd: repoDir });
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('reports file, line and matched spelling for each hit', async () => {
+    expect(await findFlagReferences(repoDir, 'new-checkout', 'main')).toEqual([
+      { file: 'flags.ts', line: 1, variant: 'kebab' },
+      { file: 'flags.ts', line: 1, variant: 'SCREAMING_SNAKE' },
+      { file: 'flags.ts', line: 2, variant: 'camelCase' },
+    ]);
+  });
+
+  it('returns no references for unknown flags', async () => {
+    expect(await findFlagReferences(repoDir, 'old-banner', 'main')).toEqual([]);
+  });
+
+  it('uses the repo search settings for extra spellings and patterns', async () => {
+    const found = await findFlagReferences(repoDir, 'new-checkout', 'main', {
+      variants: ['snake_case'],
+      constantPrefixes: ['FLAG_'],
+      patterns: ['flags\\.{snake_case}:'],
+    });
+
+    expect(found.filter((reference) => reference.file === 'billing.py')).toEqual([
+      { file: 'billing.py', line: 1, variant: 'snake_case' },
+      { file: 'billing.py', line: 1, variant: 'prefixed' },
+      { file: 'billing.py', line: 2, variant: 'snake_case' },
+      { file: 'billing.py', line: 2, variant: 'pattern' },
+    ]);
+    // Only the configured spellings are searched
+    expect(found.some((reference) => reference.variant === 'camelCase')).toBe(false);
+  });
+
+  it('searches the working tree for what is left after edits', async () => {
+    fs.writeFileSync(path.join(repoDir, 'flags.ts'), `export const NEW_CHECKOUT = true;\n`);
+    const config = { repos: { web: {} } };
+
+    expect(
+      await findWorktreeFlagReferences([{ name: 'web', worktreePath: repoDir }], 'new-checkout', config)
+    ).toEqual([{ repo: 'web', file: 'flags.ts', line: 1, variant: 'SCREAMING_SNAKE' }]);
+    // The base branch still has the original references
+    expect(await findFlagReferences(repoDir, 'new-checkout', 'main')).toHaveLength(3);
+  });
+});
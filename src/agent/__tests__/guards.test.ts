@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { execa } from 'execa';
+import { checkGuards } from '../guards.ts';
+
+describe('checkGuards', () => {
+  let worktreePath: string;
+
+  beforeEach(async () => {
+    worktreePath = fs.mkdtempSync(path.join(os.tmpdir(), 'bye-bye-flag-guards-'));
+    fs.mkdirSync(path.join(worktreePath, 'db/migrations'), { recursive: true });
+    fs.writeFileSync(path.join(worktreePath, 'app.ts'), `export const banner = 'old';\n`);
+    fs.writeFileSync(path.join(worktreePath, 'pnpm-lock.yaml'), `lockfileVersion: '9.0'\n`);
+    await execa('git', ['init', '-q'], { cwd: worktreePath });
+    await execa('git', ['add', '.'], { cwd: worktreePath });
+    await execa(
+      'git',
+      ['-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'code'],
+      { cwd: worktreePath }
+    );
+
+    // The agent's change, with a rewritten lockfile and a new migration
+    fs.writeFileSync(
+      path.join(worktreePath, 'app.ts'),
+      `export const banner = 'new';\nexport const x = 1;\n`
+    );
+    fs.writeFileSync(path.join(worktreePath, 'pnpm-lock.yaml'), `lockfileVersion: '6.0'\n`);
+    fs.writeFileSync(path.join(worktreePath, 'db/migrations/001.sql'), `DROP TABLE banners;\n`);
+  });
+
+  afterEach(() => {
+    fs.rmSync(worktreePath, { recursive: true, force: true });
+  });
+
+  it('reports changes to protected paths and over the size limits', async () => {
+    const config = {
+      repos: {
+        web: {
+          guards: {
+            protectedPaths: ['**/pnpm-lock.yaml', '**/migrations/**', '.github/**'],
+            maxChangedFiles: 2,
+            maxDiffLines: 5,
+          },
+        },
+      },
+    };
+
+    expect(await checkGuards('web', worktreePath, config)).toEqual([
+      'changes protected path(s): db/migrations/001.sql, pnpm-lock.yaml',
+      'changes 3 files (limit 2)',
+      'changes 6 lines (limit 5)',
+    ]);
+  });
+
+  it('passes changes within the guards, falling back to repoDefaults', async () => {
+    const config = {
+      repos: { web: {} },
+      repoDefaults: { guards: { protectedPaths: ['src/generated/**'], maxChangedFiles: 3, maxDiffLines: 6 } },
+    };
+
+    expect(await checkGuards('web', worktreePath, config)).toEqual([]);
+    expect(await checkGuards('web', worktreePath, { repos: { web: {} } })).toEqual([]);
+  });
+});
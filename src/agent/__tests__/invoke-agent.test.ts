@@ -1,5 +1,8 @@
-import { describe, expect, it } from 'vitest';
-import { stripArgPairOrInline } from '../adapters.ts';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { resolveAgentRuntime, stripArgPairOrInline } from '../adapters.ts';
 
 describe('stripArgPairOrInline', () => {
   it('removes session arg and value pair', () => {
@@ -24,3 +27,96 @@ describe('stripArgPairOrInline', () => {
     expect(result).toEqual(args);
   });
 });
+
+describe('resolveAgentRuntime', () => {
+  let reposDir: string;
+  const logger = { log: () => {}, error: () => {} };
+
+  beforeEach(() => {
+    reposDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bye-bye-flag-agent-'));
+    fs.writeFileSync(path.join(reposDir, 'bye-bye-flag-config.json'), JSON.stringify({ repos: {} }));
+    // Fake agent: reports its args and prompt as the summary
+    fs.writeFileSync(
+      path.join(reposDir, 'fake-agent'),
+      [
+        '#!/bin/bash',
+        'prompt=$(cat)',
+        'echo "---RESULT---"',
+        'printf \'{"status":"success","summary":"%s | %s","filesChanged":[],"testsPass":true,"lintPass":true,"typecheckPass":true}\\n\' "$*" "$prompt"',
+      ].join('\n'),
+      { mode: 0o755 }
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(reposDir, { recursive: true, force: true });
+  });
+
+  it('resumes a session with the resume args and the follow-up prompt', async () => {
+    const runtime = resolveAgentRuntime({
+      agent: {
+        type: 'fake',
+        command: path.join(reposDir, 'fake-agent'),
+        args: ['--model', 'small'],
+        resume: { withoutSessionId: 'fake-agent resume', args: ['resume', '{{sessionId}}'] },
+      },
+      repos: {},
+    });
+
+    const result = await runtime.resume!({
+      workspacePath: reposDir,
+      sessionId: 'abc-123',
+      prompt: 'fix the tests',
+      reposDir,
+      logger,
+    });
+
+    expect(result.output.summary).toBe('resume abc-123 --model small | fix the tests');
+    expect(result.sessionId).toBe('abc-123');
+  });
+
+  it('parses review verdicts', async () => {
+    fs.writeFileSync(
+      path.join(reposDir, 'fake-reviewer'),
+      [
+        '#!/bin/bash',
+        'cat > /dev/null',
+        'echo "The diff also edits cmd-k."',
+        'echo "---RESULT---"',
+        'echo \'{"verdict":"request-changes","summary":"Touches another flag.","reasons":["src/a.ts:3 edits cmd-k"]}\'',
+      ].join('\n'),
+      { mode: 0o755 }
+    );
+    const runtime = resolveAgentRuntime({
+      agent: {
+        type: 'fake',
+        command: path.join(reposDir, 'fake-reviewer'),
+        resume: { withoutSessionId: 'fake-reviewer resume' },
+      },
+      repos: {},
+    });
+
+    expect(
+      await runtime.review!({
+        workspacePath: reposDir,
+        branchName: 'remove-flag/cmd',
+        prompt: 'review this',
+        reposDir,
+        logger,
+      })
+    ).toEqual({
+      verdict: 'request-changes',
+      summary: 'Touches another flag.',
+      reasons: ['src/a.ts:3 edits cmd-k'],
+    });
+  });
+
+  it('cannot resume agents without resume args', () => {
+    const runtime = resolveAgentRuntime({
+      agent: { type: 'fake', resume: { withoutSessionId: 'fake-agent resume' } },
+      repos: {},
+    });
+
+    expect(runtime.resume).toBeUndefined();
+  });
+});
@@ -1,5 +1,11 @@
 import { describe, it, expect } from 'vitest';
-import { parseAgentOutputFromText, parseDelimitedAgentOutput, RESULT_DELIMITER } from '../output.ts';
+import {
+  parseAgentOutputFromText,
+  parseDelimitedAgentOutput,
+  parseResultFromText,
+  RESULT_DELIMITER,
+} from '../output.ts';
+import { ReviewVerdictSchema } from '../../types.ts';
 
 const validOutput = {
   status: 'success' as const,
@@ -84,3 +90,15 @@ describe('parseAgentOutputFromText', () => {
     expect(result?.summary).toBe('Removed flag from 2 files');
   });
 });
+
+describe('parseResultFromText', () => {
+  it('parses results with another schema', () => {
+    const verdict = { verdict: 'approve', summary: 'Looks right', reasons: [] };
+    const text = `Reviewed.\n${RESULT_DELIMITER}\n${JSON.stringify(verdict)}`;
+
+    expect(parseResultFromText(text, ReviewVerdictSchema)).toEqual(verdict);
+    expect(
+      parseResultFromText(`${RESULT_DELIMITER}\n${JSON.stringify(validOutput)}`, ReviewVerdictSchema)
+    ).toBeNull();
+  });
+});
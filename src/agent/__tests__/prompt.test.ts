@@ -1,5 +1,17 @@
-import { describe, it, expect } from 'vitest';
-import { generatePrompt } from '../prompt.ts';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  generateFixupPrompt,
+  generatePrompt,
+  generateReviewPrompt,
+  loadPromptTemplate,
+  readRepoContext,
+  resolvePromptTemplate,
+} from '../prompt.ts';
+import type { ByeByeFlagConfig } from '../scaffold.ts';
 
 describe('generatePrompt', () => {
   it('substitutes flag key and keep branch', async () => {
@@ -47,4 +59,211 @@ describe('generatePrompt', () => {
     });
     expect(prompt).toContain('Uses React and Next.js.');
   });
+
+  it('adds variant instructions for multivariate flags', async () => {
+    const prompt = await generatePrompt({
+      flagKey: 'checkout-experiment',
+      keepBranch: 'enabled',
+      keepVariant: 'test',
+    });
+    expect(prompt).toContain('- **Keep variant:** `test`');
+    expect(prompt).toContain('Collapse variant checks');
+    expect(prompt).toContain("Collapse `switch` statements on the flag value to the `case 'test'` body");
+    expect(prompt).not.toContain('{{');
+  });
+
+  it('omits variant instructions for boolean flags', async () => {
+    const prompt = await generatePrompt({
+      flagKey: 'test-flag',
+      keepBranch: 'enabled',
+    });
+    expect(prompt).not.toContain('Keep variant');
+    expect(prompt).not.toContain('Collapse variant checks');
+    expect(prompt).not.toContain('{{');
+    expect(prompt).not.toMatch(/\n\n\n/);
+  });
+
+  it('lists known code references', async () => {
+    const prompt = await generatePrompt({
+      flagKey: 'new-checkout',
+      keepBranch: 'enabled',
+      codeReferences: [
+        { repo: 'web', file: 'src/checkout.tsx', line: 12, variant: 'kebab' },
+        { repo: 'api', file: 'app/flags.py', line: 3, variant: 'SCREAMING_SNAKE' },
+      ],
+    });
+    expect(prompt).toContain('- `web/src/checkout.tsx:12` (kebab)');
+    expect(prompt).toContain('- `api/app/flags.py:3` (SCREAMING_SNAKE)');
+    expect(prompt).not.toContain('{{');
+  });
+
+  it('lists the codemod edits and only the references left after it', async () => {
+    const prompt = await generatePrompt({
+      flagKey: 'new-checkout',
+      keepBranch: 'enabled',
+      codeReferences: [{ repo: 'web', file: 'src/flags.json', line: 4, variant: 'kebab' }],
+      codemodFiles: ['web/src/checkout.tsx'],
+    });
+    expect(prompt).toContain('A codemod already inlined the simple flag checks');
+    expect(prompt).toContain('- `web/src/checkout.tsx`');
+    expect(prompt).toContain('These references are left after the codemod');
+    expect(prompt).toContain('- `web/src/flags.json:4` (kebab)');
+    expect(prompt).not.toContain("A search of each repo's base branch");
+  });
+
+  it('lists the spellings and patterns configured for each repo', async () => {
+    const prompt = await generatePrompt({
+      flagKey: 'new-billing',
+      keepBranch: 'enabled',
+      keySearch: [
+        undefined,
+        { variants: ['snake_case'], constantPrefixes: ['FLAG_'], patterns: ['Flags\\.{PascalCase}'] },
+      ],
+    });
+    expect(prompt).toContain('- Exact match: `"new-billing"`');
+    expect(prompt).toContain('- camelCase: `newBilling`');
+    expect(prompt).toContain('- snake_case: `new_billing`');
+    expect(prompt).toContain('- Prefixed constant: `FLAG_NEW_BILLING`');
+    expect(prompt).toContain('- Pattern: `/Flags\\.NewBilling/`');
+    expect(prompt).not.toContain('{{');
+  });
+});
+
+describe('generateFixupPrompt', () => {
+  it('includes each failing command with its output', () => {
+    const prompt = generateFixupPrompt({
+      flagKey: 'new-checkout',
+      keepBranch: 'enabled',
+      failures: [
+        {
+          repo: 'web',
+          result: {
+            check: 'typecheck',
+            command: 'pnpm tsc --noEmit',
+            exitCode: 2,
+            timedOut: false,
+            output: "src/cart.ts(4,10): error TS2304: Cannot find name 'oldCheckout'.",
+          },
+        },
+      ],
+    });
+
+    expect(prompt).toContain('### web: typecheck');
+    expect(prompt).toContain('`pnpm tsc --noEmit` exited with code 2:');
+    expect(prompt).toContain("Cannot find name 'oldCheckout'");
+    expect(prompt).toContain('Do not bring back the flag or the `disabled` code path');
+    expect(prompt).toContain('---RESULT---');
+  });
+});
+
+describe('generateReviewPrompt', () => {
+  it('includes the diff, the kept branch and the substring check', () => {
+    const prompt = generateReviewPrompt({
+      flagKey: 'cmd',
+      keepBranch: 'disabled',
+      diff: '# Repository: web\n-if (isFeatureEnabled("cmd")) {',
+    });
+
+    expect(prompt).toContain('the `disabled` code path kept and the `enabled` code path removed');
+    expect(prompt).toContain('(e.g. `cmd-v2`, `new-cmd`)');
+    expect(prompt).toContain('-if (isFeatureEnabled("cmd")) {');
+    expect(prompt).toContain('"verdict": "approve" | "request-changes"');
+  });
+});
+
+describe('readRepoContext', () => {
+  let workspace: string;
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'bye-bye-flag-context-'));
+    fs.mkdirSync(path.join(workspace, 'web', '.bye-bye-flag'), { recursive: true });
+    fs.writeFileSync(
+      path.join(workspace, 'web', '.bye-bye-flag', 'flags.md'),
+      'Use `useFlag()` from `@/flags`.\n'
+    );
+    fs.mkdirSync(path.join(workspace, 'api', 'docs'), { recursive: true });
+    fs.writeFileSync(path.join(workspace, 'api', 'docs', 'flags.md'), 'Flags live in `app/flags.py`.\n');
+    fs.mkdirSync(path.join(workspace, 'worker'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  const repos = (...names: string[]) =>
+    names.map((name) => ({ name, worktreePath: path.join(workspace, name) }));
+
+  it('puts configured and discovered files under a heading per repo', async () => {
+    const config: ByeByeFlagConfig = {
+      repos: { web: {}, api: { contextFiles: ['docs/flags.md'] }, worker: {} },
+    };
+
+    expect(await readRepoContext(repos('web', 'api', 'worker'), config)).toBe(
+      '#### web\n\nUse `useFlag()` from `@/flags`.\n\n#### api\n\nFlags live in `app/flags.py`.'
+    );
+  });
+
+  it('fails on missing configured files', async () => {
+    const config: ByeByeFlagConfig = { repos: { worker: { contextFiles: ['CONTEXT.md'] } } };
+
+    await expect(readRepoContext(repos('worker'), config)).rejects.toThrow(
+      'Context file not found for repo "worker": CONTEXT.md'
+    );
+  });
+});
+
+describe('custom prompt templates', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bye-bye-flag-templates-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('renders partials, flag details and metadata', async () => {
+    fs.writeFileSync(
+      path.join(dir, 'prompt.md'),
+      '{{> remove-flag}}\n\n{{> analytics}}\n\nPicked because: {{reason}} (project {{metadata.projectId}})\n'
+    );
+    fs.writeFileSync(path.join(dir, 'analytics.md'), 'Also delete `{{flagKey}}_viewed` analytics events.\n');
+
+    const prompt = await generatePrompt({
+      flagKey: 'new-billing',
+      keepBranch: 'enabled',
+      reason: 'Rolled out to 100% for 90 days',
+      metadata: { projectId: 42 },
+      templatePath: path.join(dir, 'prompt.md'),
+    });
+
+    expect(prompt).toContain('# Feature Flag Removal Task');
+    expect(prompt).toContain('Also delete `new-billing_viewed` analytics events.');
+    expect(prompt).toContain('Picked because: Rolled out to 100% for 90 days (project 42)');
+    expect(prompt).not.toContain('{{');
+  });
+
+  it('rejects unknown placeholders and missing partials', async () => {
+    fs.writeFileSync(path.join(dir, 'typo.md'), 'Remove {{flagkey}}\n');
+    fs.writeFileSync(path.join(dir, 'missing.md'), '{{> org-rules}}\n');
+
+    await expect(loadPromptTemplate(path.join(dir, 'typo.md'))).rejects.toThrow(
+      `Unknown placeholder {{flagkey}} in prompt template ${path.join(dir, 'typo.md')}`
+    );
+    await expect(loadPromptTemplate(path.join(dir, 'missing.md'))).rejects.toThrow(
+      'Prompt partial "org-rules" included from'
+    );
+  });
+
+  it('uses a repo override only when every repo with work shares it', () => {
+    const config: ByeByeFlagConfig = {
+      prompt: { template: 'prompts/org.md' },
+      repos: { web: { promptTemplate: 'prompts/web.md' }, api: {} },
+    };
+
+    expect(resolvePromptTemplate(config, dir, ['web'])).toBe(path.join(dir, 'prompts/web.md'));
+    expect(resolvePromptTemplate(config, dir, ['web', 'api'])).toBe(path.join(dir, 'prompts/org.md'));
+    expect(resolvePromptTemplate({ repos: { api: {} } }, dir, ['api'])).toBe(DEFAULT_PROMPT_TEMPLATE);
+  });
 });
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { buildSandboxArgs, sandboxEnv } from '../sandbox.ts';
+
+describe('sandboxEnv', () => {
+  it('passes only allowlisted variables', () => {
+    const env = {
+      PATH: '/usr/bin',
+      HOME: '/home/dev',
+      LC_ALL: 'C.UTF-8',
+      AWS_SECRET_ACCESS_KEY: 'secret',
+      GITHUB_TOKEN: 'token',
+      ANTHROPIC_API_KEY: 'key',
+      OPENAI_API_KEY: 'key',
+      OPENAI_BASE_URL: 'https://example.com',
+      TMPDIR: '/var/folders/tmp',
+    };
+
+    expect(sandboxEnv(env, ['ANTHROPIC_API_KEY', 'OPENAI_*'])).toEqual({
+      PATH: '/usr/bin',
+      HOME: '/home/dev',
+      LC_ALL: 'C.UTF-8',
+      ANTHROPIC_API_KEY: 'key',
+      OPENAI_API_KEY: 'key',
+      OPENAI_BASE_URL: 'https://example.com',
+      TMPDIR: '/tmp',
+    });
+  });
+});
+
+describe('buildSandboxArgs', () => {
+  let home: string;
+
+  beforeEach(() => {
+    home = fs.mkdtempSync(path.join(os.tmpdir(), 'bye-bye-flag-sandbox-'));
+    fs.mkdirSync(path.join(home, '.ssh'));
+    fs.mkdirSync(path.join(home, '.claude'));
+    fs.writeFileSync(path.join(home, '.netrc'), 'machine github.com password secret\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  it('makes the workspace the only writable tree and hides existing credential paths', async () => {
+    const args = await buildSandboxArgs(
+      { type: 'bubblewrap', writablePaths: ['~/.claude', '~/.codex'], hiddenPaths: ['~/.config/acme'] },
+      '/work/remove-flag-new-checkout',
+      home
+    );
+
+    expect(args).toEqual([
+      '--die-with-parent',
+      '--unshare-all',
+      '--ro-bind',
+      '/',
+      '/',
+      '--dev',
+      '/dev',
+      '--proc',
+      '/proc',
+      '--tmpfs',
+      '/tmp',
+      '--tmpfs',
+      path.join(home, '.ssh'),
+      '--ro-bind',
+      '/dev/null',
+      path.join(home, '.netrc'),
+      '--bind',
+      path.join(home, '.claude'),
+      path.join(home, '.claude'),
+      '--bind',
+      '/work/remove-flag-new-checkout',
+      '/work/remove-flag-new-checkout',
+      '--chdir',
+      '/work/remove-flag-new-checkout',
+      '--',
+    ]);
+  });
+
+  it('shares the network only when enabled', async () => {
+    expect(await buildSandboxArgs({ type: 'bubblewrap', network: true }, '/work', home)).toContain(
+      '--share-net'
+    );
+    expect(await buildSandboxArgs({ type: 'bubblewrap' }, '/work', home)).not.toContain('--share-net');
+  });
+});
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { execa } from 'execa';
+import { checkScope, getScopeDiff, stripFindings } from '../scope-guard.ts';
+
+// 60 numbered lines with the flag checked on line 10
+const original = Array.from({ length: 60 }, (_, index) =>
+  index === 9 ? `if (isFeatureEnabled('cmd')) openPalette();` : `const line${index + 1} = ${index + 1};`
+);
+
+describe('scope guard', () => {
+  let worktreePath: string;
+
+  const write = (lines: string[]) =>
+    fs.writeFileSync(path.join(worktreePath, 'app.ts'), lines.join('\n') + '\n');
+  const check = async () =>
+    checkScope({
+      diff: await getScopeDiff(worktreePath),
+      flagKey: 'cmd',
+      references: [{ file: 'app.ts', line: 10 }],
+    });
+
+  beforeEach(async () => {
+    worktreePath = fs.mkdtempSync(path.join(os.tmpdir(), 'bye-bye-flag-scope-'));
+    write(original);
+    fs.writeFileSync(path.join(worktreePath, 'unused.ts'), `export const legacy = true;\n`);
+    await execa('git', ['init', '-q'], { cwd: worktreePath });
+    await execa('git', ['add', '.'], { cwd: worktreePath });
+    await execa(
+      'git',
+      ['-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'code'],
+      { cwd: worktreePath }
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(worktreePath, { recursive: true, force: true });
+  });
+
+  it('accepts edits near references, deleted files and import-only hunks', async () => {
+    const lines = [`import { a } from './a';`, ...original];
+    lines[10] = 'openPalette();';
+    write(lines);
+    fs.rmSync(path.join(worktreePath, 'unused.ts'));
+
+    expect(await check()).toEqual([]);
+  });
+
+  it('reports hunks far from every reference and in files without one', async () => {
+    const lines = [...original];
+    lines[9] = 'openPalette();';
+    lines[49] = 'const line50 = 5000;';
+    write(lines);
+    fs.writeFileSync(path.join(worktreePath, 'unused.ts'), `export const legacy = false;\n`);
+
+    const findings = await check();
+
+    expect(findings.map(({ file, line, message }) => ({ file, line, message }))).toEqual([
+      { file: 'app.ts', line: 50, message: '1 changed line(s), 40 lines from the nearest flag reference' },
+      { file: 'unused.ts', line: 1, message: '1 changed line(s) in a file without a flag reference' },
+    ]);
+  });
+
+  it('reports renamed identifiers and other flag keys that contain the key', () => {
+    const diff = [
+      'diff --git a/palette.ts b/palette.ts',
+      'index 1111111..2222222 100644',
+      '--- a/palette.ts',
+      '+++ b/palette.ts',
+      '@@ -3,3 +3,2 @@',
+      `-const isCmdKEnabled = isFeatureEnabled('cmd-k');`,
+      `-if (isFeatureEnabled('cmd')) openPalette();`,
+      `-  return isCmdKEnabled;`,
+      `+openPalette();`,
+      `+  return isCommandKEnabled;`,
+    ].join('\n');
+
+    expect(
+      checkScope({ diff, flagKey: 'cmd', references: [{ file: 'palette.ts', line: 4 }] }).map(
+        (f) => f.message
+      )
+    ).toEqual([
+      'renames `isCmdKEnabled` to `isCommandKEnabled`, which only contains the key',
+      'removes `cmd-k`, a different flag key that contains the key',
+    ]);
+  });
+
+  it('strips the reported hunks and keeps the rest', async () => {
+    const lines = [...original];
+    lines[9] = 'openPalette();';
+    lines[39] = 'const line40 = 4000;';
+    lines.splice(49, 2);
+    write(lines);
+
+    await stripFindings(worktreePath, await check());
+
+    const expected = [...original];
+    expected[9] = 'openPalette();';
+    expect(fs.readFileSync(path.join(worktreePath, 'app.ts'), 'utf-8')).toBe(expected.join('\n') + '\n');
+    expect(await check()).toEqual([]);
+  });
+});
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { execa } from 'execa';
+import { runVerification } from '../verify.ts';
+
+const logger = { log: () => {}, error: () => {} };
+
+describe('runVerification', () => {
+  let worktreePath: string;
+
+  beforeEach(async () => {
+    worktreePath = fs.mkdtempSync(path.join(os.tmpdir(), 'bye-bye-flag-verify-'));
+    fs.writeFileSync(path.join(worktreePath, 'app.ts'), `export const banner = 'old';\n`);
+    await execa('git', ['init', '-q'], { cwd: worktreePath });
+    await execa('git', ['add', '.'], { cwd: worktreePath });
+    await execa(
+      'git',
+      ['-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'code'],
+      { cwd: worktreePath }
+    );
+    // The agent's change
+    fs.writeFileSync(path.join(worktreePath, 'app.ts'), `export const banner = 'new';\n`);
+  });
+
+  afterEach(() => {
+    fs.rmSync(worktreePath, { recursive: true, force: true });
+  });
+
+  it('records exit codes and output, stopping a check at its first failure', async () => {
+    const config = {
+      repos: {
+        web: {
+          verify: {
+            typecheck: ['true'],
+            lint: ['echo "app.ts: unused variable" >&2; exit 3', 'echo never runs'],
+            test: ['echo passed'],
+          },
+        },
+      },
+    };
+
+    expect(await runVerification('web', worktreePath, config, logger)).toEqual([
+      { check: 'typecheck', command: 'true', exitCode: 0, timedOut: false, output: '' },
+      {
+        check: 'lint',
+        command: 'echo "app.ts: unused variable" >&2; exit 3',
+        exitCode: 3,
+        timedOut: false,
+        output: 'app.ts: unused variable',
+      },
+      { check: 'test', command: 'echo passed', exitCode: 0, timedOut: false, output: 'passed' },
+    ]);
+  });
+
+  it('keeps the agent changes and discards files written by the commands', async () => {
+    const config = {
+      repos: { web: {} },
+      repoDefaults: { verify: { test: ['echo build > out.txt && echo "// formatted" >> app.ts'] } },
+    };
+
+    const [result] = await runVerification('web', worktreePath, config, logger);
+
+    expect(result.exitCode).toBe(0);
+    expect(fs.existsSync(path.join(worktreePath, 'out.txt'))).toBe(false);
+    expect(fs.readFileSync(path.join(worktreePath, 'app.ts'), 'utf-8')).toBe(
+      `export const banner = 'new';\n`
+    );
+  });
+
+  it('returns no results without verify commands', async () => {
+    expect(await runVerification('web', worktreePath, { repos: { web: {} } }, logger)).toEqual([]);
+  });
+});
@@ -1,15 +1,21 @@
 import { v5 as uuidv5 } from 'uuid';
 import { CONFIG } from '../config.ts';
-import { type AgentKind, type Logger } from '../types.ts';
+import { ReviewVerdictSchema, type AgentKind, type Logger, type ReviewVerdict } from '../types.ts';
 import { type AgentConfig, type ByeByeFlagConfig } from './scaffold.ts';
-import { type AgentExecutionContract, invokeAgent } from './invoke-agent.ts';
+import { type AgentExecutionContract, invokeAgent, invokeAgentWithParser } from './invoke-agent.ts';
+import { parseResultFromText } from './output.ts';
+import { createCodemodRuntime } from './codemod/index.ts';
 import { getAgentPreset } from './presets/index.ts';
 import type { AgentResumeTemplates, SessionIdConfig } from './presets/types.ts';
+import type { AgentSandboxSettings } from './sandbox.ts';
 
 export interface AgentInvocationContext {
   workspacePath: string;
   branchName: string;
   prompt: string;
+  flagKey: string;
+  keepBranch: 'enabled' | 'disabled';
+  keepVariant?: string;
   reposDir: string;
   configPath?: string;
   logger?: Logger;
@@ -34,11 +40,33 @@ export interface AgentInvocationResult {
   resumeCommand: string;
 }
 
+export interface AgentResumeContext {
+  workspacePath: string;
+  sessionId: string;
+  prompt: string;
+  reposDir: string;
+  configPath?: string;
+  logger?: Logger;
+}
+
+export interface AgentReviewContext {
+  workspacePath: string;
+  branchName: string;
+  prompt: string;
+  reposDir: string;
+  configPath?: string;
+  logger?: Logger;
+}
+
 export interface AgentRuntime {
   kind: AgentKind;
   prerequisiteCommand: string;
   prerequisiteArgs: string[];
   invoke(context: AgentInvocationContext): Promise<AgentInvocationResult>;
+  // Sends a follow-up prompt to an earlier session; absent when the agent cannot be resumed headlessly
+  resume?(context: AgentResumeContext): Promise<AgentInvocationResult>;
+  // Runs a review prompt in a fresh session and parses the verdict; absent for the codemod
+  review?(context: AgentReviewContext): Promise<ReviewVerdict>;
 }
 
 interface ResolvedAgentConfig {
@@ -52,6 +80,8 @@ interface ResolvedAgentConfig {
   sessionIdRegex?: string;
   sessionId?: SessionIdConfig;
   resume: AgentResumeTemplates;
+  userArgs: string[];
+  sandbox?: AgentSandboxSettings;
 }
 
 function resolveTimeoutMs(agentConfig?: { timeoutMinutes?: number }): number {
@@ -66,6 +96,7 @@ function mergeResumeTemplates(
 ): AgentResumeTemplates {
   const withoutSessionId = userResume?.withoutSessionId ?? presetResume?.withoutSessionId;
   const withSessionId = userResume?.withSessionId ?? presetResume?.withSessionId;
+  const args = userResume?.args ?? presetResume?.args;
 
   if (!withoutSessionId) {
     throw new Error(
@@ -73,7 +104,7 @@ function mergeResumeTemplates(
     );
   }
 
-  return { withoutSessionId, withSessionId };
+  return { withoutSessionId, withSessionId, args };
 }
 
 function resolveAgentConfig(config: ByeByeFlagConfig): ResolvedAgentConfig {
@@ -101,6 +132,8 @@ function resolveAgentConfig(config: ByeByeFlagConfig): ResolvedAgentConfig {
     sessionIdRegex: userConfig?.sessionIdRegex ?? preset?.sessionIdRegex,
     sessionId: preset?.sessionId,
     resume: mergeResumeTemplates(kind, preset?.resume, userConfig?.resume),
+    userArgs: userConfig?.args ?? [],
+    sandbox: userConfig?.sandbox,
   };
 }
 
@@ -176,21 +209,54 @@ function createExecutionContract(
     retryArgs,
     extractSessionId: (stdout) =>
       extractSessionIdFromOutput(stdout, resolved.sessionIdRegex) ?? initialSessionId,
-    buildResumeCommand: (command, workspacePath, sessionId) => {
-      if (sessionId && resolved.resume.withSessionId) {
-        return renderResumeTemplate(resolved.resume.withSessionId, { workspacePath, sessionId, command });
-      }
-      return renderResumeTemplate(resolved.resume.withoutSessionId, { workspacePath, command });
-    },
+    buildResumeCommand: (command, workspacePath, sessionId) =>
+      buildResumeCommand(resolved, command, workspacePath, sessionId),
   };
 
   return { contract, initialSessionId };
 }
 
+/**
+ * Contract for a follow-up run in an existing session. Output normalization runs outside the
+ * session (plain args), so it does not end up in the session's history.
+ */
+function createResumeContract(
+  resolved: ResolvedAgentConfig,
+  resumeArgs: string[],
+  sessionId: string
+): AgentExecutionContract {
+  return {
+    invocationArgs: [
+      ...resumeArgs.map((arg) => arg.replace(/\{\{sessionId\}\}/g, sessionId)),
+      ...resolved.userArgs,
+    ],
+    retryArgs: [...resolved.args],
+    extractSessionId: (stdout) => extractSessionIdFromOutput(stdout, resolved.sessionIdRegex) ?? sessionId,
+    buildResumeCommand: (command, workspacePath, extractedSessionId) =>
+      buildResumeCommand(resolved, command, workspacePath, extractedSessionId),
+  };
+}
+
+function buildResumeCommand(
+  resolved: ResolvedAgentConfig,
+  command: string,
+  workspacePath: string,
+  sessionId?: string
+): string {
+  if (sessionId && resolved.resume.withSessionId) {
+    return renderResumeTemplate(resolved.resume.withSessionId, { workspacePath, sessionId, command });
+  }
+  return renderResumeTemplate(resolved.resume.withoutSessionId, { workspacePath, command });
+}
+
 export function resolveAgentRuntime(config: ByeByeFlagConfig): AgentRuntime {
+  if (config.agent?.type === 'codemod') {
+    return createCodemodRuntime(config.agent.codemod?.calls);
+  }
+
   const resolved = resolveAgentConfig(config);
 
-  return {
+  const runtime: AgentRuntime = {
     kind: resolved.kind,
     prerequisiteCommand: resolved.command,
     prerequisiteArgs: resolved.versionArgs,
@@ -208,6 +274,7 @@ export function resolveAgentRuntime(config: ByeByeFlagConfig): AgentRuntime {
         promptArg: resolved.promptArg,
         timeoutMs: resolved.timeoutMs,
         execution: contract,
+        sandbox: resolved.sandbox,
         logger: context.logger,
       });
 
@@ -218,5 +285,57 @@ export function resolveAgentRuntime(config: ByeByeFlagConfig): AgentRuntime {
         resumeCommand: result.resumeCommand,
       };
     },
+    async review(context: AgentReviewContext): Promise<ReviewVerdict> {
+      const { contract } = createExecutionContract(resolved, context.branchName);
+
+      const result = await invokeAgentWithParser(
+        {
+          kind: `${resolved.kind}:review`,
+          workspacePath: context.workspacePath,
+          reposDir: context.reposDir,
+          configPath: context.configPath,
+          prompt: context.prompt,
+          command: resolved.command,
+          promptMode: resolved.promptMode,
+          promptArg: resolved.promptArg,
+          timeoutMs: resolved.timeoutMs,
+          execution: contract,
+          sandbox: resolved.sandbox,
+          logger: context.logger,
+        },
+        (text) => parseResultFromText(text, ReviewVerdictSchema)
+      );
+
+      return result.output;
+    },
   };
+
+  const resumeArgs = resolved.resume.args;
+  if (resumeArgs) {
+    runtime.resume = async (context: AgentResumeContext): Promise<AgentInvocationResult> => {
+      const result = await invokeAgent({
+        kind: resolved.kind,
+        workspacePath: context.workspacePath,
+        reposDir: context.reposDir,
+        configPath: context.configPath,
+        prompt: context.prompt,
+        command: resolved.command,
+        promptMode: resolved.promptMode,
+        promptArg: resolved.promptArg,
+        timeoutMs: resolved.timeoutMs,
+        execution: createResumeContract(resolved, resumeArgs, context.sessionId),
+        sandbox: resolved.sandbox,
+        logger: context.logger,
+      });
+
+      return {
+        kind: resolved.kind,
+        output: result.output,
+        sessionId: result.sessionId,
+        resumeCommand: result.resumeCommand,
+      };
+    };
+  }
+
+  return runtime;
 }
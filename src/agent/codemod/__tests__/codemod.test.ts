@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { execa } from 'execa';
+import { DEFAULT_CODEMOD_CALLS, runCodemod } from '../index.ts';
+
+describe('runCodemod', () => {
+  let workspacePath: string;
+  const logger = { log: vi.fn(), error: vi.fn() };
+
+  beforeEach(async () => {
+    workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), 'bye-bye-flag-codemod-'));
+    const repoPath = path.join(workspacePath, 'web');
+    fs.mkdirSync(path.join(repoPath, 'src'), { recursive: true });
+    fs.writeFileSync(
+      path.join(repoPath, 'src', 'banner.ts'),
+      `export const banner = () => (isFeatureEnabled('new-banner') ? 'new' : 'old');\n`
+    );
+    fs.writeFileSync(path.join(repoPath, 'README.md'), 'The new-banner flag shows the new banner.\n');
+    await execa('git', ['init', '-q'], { cwd: repoPath });
+    await execa('git', ['add', '.'], { cwd: repoPath });
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspacePath, { recursive: true, force: true });
+  });
+
+  const context = (flagKey: string) => ({
+    workspacePath,
+    reposDir: workspacePath,
+    branchName: `remove-flag/${flagKey}`,
+    prompt: '',
+    flagKey,
+    keepBranch: 'enabled' as const,
+    logger,
+  });
+
+  it('rewrites flag checks in every repo of the workspace', async () => {
+    const output = await runCodemod(context('new-banner'), DEFAULT_CODEMOD_CALLS);
+
+    expect(output.status).toBe('success');
+    expect(output.summary).toBe('Inlined the enabled branch of 1 flag check(s) in 1 file(s).');
+    expect(output.filesChanged).toEqual(['web/src/banner.ts']);
+    expect(fs.readFileSync(path.join(workspacePath, 'web', 'src', 'banner.ts'), 'utf-8')).toBe(
+      `export const banner = () => 'new';\n`
+    );
+  });
+
+  it('refuses when references are left that it cannot inline', async () => {
+    fs.writeFileSync(path.join(workspacePath, 'web', 'flags.json'), '["new-banner"]\n');
+    await execa('git', ['add', '.'], { cwd: path.join(workspacePath, 'web') });
+
+    const output = await runCodemod(context('new-banner'), DEFAULT_CODEMOD_CALLS);
+
+    expect(output.status).toBe('refused');
+    expect(output.summary).toContain('1 reference(s) to "new-banner" need manual changes: web/flags.json:1');
+    expect(output.filesChanged).toEqual(['web/src/banner.ts']);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import { removeFlagChecks } from '../transform.ts';
+
+const enabled = { flagKey: 'new-checkout', keepBranch: 'enabled' as const, calls: ['isFeatureEnabled'] };
+const disabled = { ...enabled, keepBranch: 'disabled' as const };
+
+describe('removeFlagChecks', () => {
+  it('inlines the kept branch of if statements', () => {
+    const source = [
+      `import { isFeatureEnabled } from './flags';`,
+      `import { newCheckout, oldCheckout } from './checkout';`,
+      ``,
+      `export function checkout(cart: Cart) {`,
+      `  if (isFeatureEnabled('new-checkout')) {`,
+      `    const total = cart.total();`,
+      `    return newCheckout(total);`,
+      `  } else {`,
+      `    return oldCheckout(cart);`,
+      `  }`,
+      `}`,
+      ``,
+    ].join('\n');
+
+    const result = removeFlagChecks(source, 'checkout.ts', enabled);
+
+    expect(result.text).toBe(
+      [
+        `import { newCheckout } from './checkout';`,
+        ``,
+        `export function checkout(cart: Cart) {`,
+        `  const total = cart.total();`,
+        `  return newCheckout(total);`,
+        `}`,
+        ``,
+      ].join('\n')
+    );
+    expect(result.checksRemoved).toBe(1);
+    expect(result.importsRemoved).toEqual(['isFeatureEnabled', 'oldCheckout']);
+  });
+
+  it('drops guards for the removed branch and simplifies mixed conditions', () => {
+    const source = [
+      `function render(user: User) {`,
+      `  if (!isFeatureEnabled('new-checkout')) return null;`,
+      `  if (user.isAdmin && isFeatureEnabled('new-checkout')) {`,
+      `    showDebug();`,
+      `  }`,
+      `  return posthog.isFeatureEnabled('new-checkout') ? 'new' : 'old';`,
+      `}`,
+    ].join('\n');
+
+    expect(removeFlagChecks(source, 'render.ts', enabled).text).toBe(
+      [
+        `function render(user: User) {`,
+        `  if (user.isAdmin) {`,
+        `    showDebug();`,
+        `  }`,
+        `  return 'new';`,
+        `}`,
+      ].join('\n')
+    );
+  });
+
+  it('handles JSX conditionals and const aliases', () => {
+    const source = [
+      `import { useFeatureFlagEnabled } from 'posthog-js/react';`,
+      `import { NewBanner } from './NewBanner';`,
+      `import { OldBanner } from './OldBanner';`,
+      ``,
+      `export function Header() {`,
+      `  const showNew = useFeatureFlagEnabled('new-checkout');`,
+      `  return (`,
+      `    <header>`,
+      `      {showNew && <NewBanner />}`,
+      `      {showNew ? <span>New</span> : <OldBanner />}`,
+      `      <Logo />`,
+      `    </header>`,
+      `  );`,
+      `}`,
+    ].join('\n');
+
+    const result = removeFlagChecks(source, 'Header.tsx', {
+      ...disabled,
+      calls: ['useFeatureFlagEnabled'],
+    });
+
+    expect(result.text).toBe(
+      [
+        `import { OldBanner } from './OldBanner';`,
+        ``,
+        `export function Header() {`,
+        `  return (`,
+        `    <header>`,
+        `      <OldBanner />`,
+        `      <Logo />`,
+        `    </header>`,
+        `  );`,
+        `}`,
+      ].join('\n')
+    );
+    expect(result.importsRemoved).toEqual(['useFeatureFlagEnabled', 'NewBanner']);
+  });
+
+  it('leaves checks it cannot inline, and the aliases they need', () => {
+    const source = [
+      `const enabled = isFeatureEnabled('new-checkout');`,
+      `track('checkout', { enabled });`,
+      `if (enabled) start();`,
+      `isFeatureEnabled('other-flag') && legacy();`,
+    ].join('\n');
+
+    const result = removeFlagChecks(source, 'track.js', enabled);
+
+    expect(result.text).toBe(
+      [
+        `const enabled = isFeatureEnabled('new-checkout');`,
+        `track('checkout', { enabled });`,
+        `start();`,
+        `isFeatureEnabled('other-flag') && legacy();`,
+      ].join('\n')
+    );
+    expect(result.checksRemoved).toBe(1);
+  });
+  it('keeps the braces when the block declares a name used outside it', () => {
+    const shadowing = [
+      `const total = 1;`,
+      `function f() {`,
+      `  if (isFeatureEnabled('new-checkout')) {`,
+      `    const total = 2;`,
+      `    log(total);`,
+      `  }`,
+      `  return total;`,
+      `}`,
+    ].join('\n');
+    expect(removeFlagChecks(shadowing, 'shadow.ts', enabled).text).toBe(
+      [
+        `const total = 1;`,
+        `function f() {`,
+        `  {`,
+        `    const total = 2;`,
+        `    log(total);`,
+        `  }`,
+        `  return total;`,
+        `}`,
+      ].join('\n')
+    );
+
+    const parameter = `function f(x) { if (isFeatureEnabled('new-checkout')) { const x = 1; } }`;
+    expect(removeFlagChecks(parameter, 'param.ts', enabled).text).toBe(`function f(x) { { const x = 1; } }`);
+  });
+
+  it('keeps the value of && / || expressions used as values', () => {
+    const source = [
+      `const a = (name && isFeatureEnabled('new-checkout')) || 'default';`,
+      `const b = !(name && isFeatureEnabled('new-checkout'));`,
+    ].join('\n');
+
+    expect(removeFlagChecks(source, 'value.ts', enabled).text).toBe(
+      [`const a = (name && true) || 'default';`, `const b = !(name);`].join('\n')
+    );
+  });
+
+  it('keeps an object literal arrow body an expression', () => {
+    const source = [
+      `const a = () => isFeatureEnabled('new-checkout') ? { a: 1 } : { b: 2 };`,
+      `const b = () => isFeatureEnabled('new-checkout') ? (isFeatureEnabled('new-checkout') ? { c: 3 } : null) : null;`,
+    ].join('\n');
+
+    expect(removeFlagChecks(source, 'arrow.ts', enabled).text).toBe(
+      [`const a = () => ({ a: 1 });`, `const b = () => ({ c: 3 });`].join('\n')
+    );
+    expect(removeFlagChecks(source, 'arrow.ts', disabled).text).toBe(
+      [`const a = () => ({ b: 2 });`, `const b = () => null;`].join('\n')
+    );
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Codemod runtime (`agent.type: "codemod"`)
+ *
+ * Removes simple boolean flag checks without an LLM: every repo in the workspace is searched
+ * for the flag key, and TypeScript/JavaScript files are rewritten with the AST transform.
+ * Fast, free and reproducible, so it can run in CI.
+ *
+ * The run is refused when references remain that the transform cannot inline (flag checks in
+ * other positions, keys in config files, other languages). The edits it did make stay in the
+ * worktree.
+ *
+ * With `agent.codemodFirst`, the same rewrite runs before the configured agent, which then only
+ * handles what is left.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { execa } from 'execa';
+import { escapeRegExp } from '../../flag-key.ts';
+import { consoleLogger, type AgentOutput, type Logger } from '../../types.ts';
+import type { AgentInvocationContext, AgentInvocationResult, AgentRuntime } from '../adapters.ts';
+import { removeFlagChecks } from './transform.ts';
+
+export const DEFAULT_CODEMOD_CALLS = ['isFeatureEnabled', 'useFeatureFlagEnabled'];
+
+const CODE_FILE = /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/;
+const MAX_LISTED_REMAINING = 20;
+
+export function createCodemodRuntime(calls: string[] = DEFAULT_CODEMOD_CALLS): AgentRuntime {
+  return {
+    kind: 'codemod',
+    prerequisiteCommand: 'git',
+    prerequisiteArgs: ['--version'],
+    async invoke(context: AgentInvocationContext): Promise<AgentInvocationResult> {
+      return {
+        kind: 'codemod',
+        output: await runCodemod(context, calls),
+        resumeCommand: `cd ${context.workspacePath}`,
+      };
+    },
+  };
+}
+
+/**
+ * Lists the repos (worktrees) in a workspace
+ */
+async function listWorkspaceRepos(workspacePath: string): Promise<string[]> {
+  const entries = await fs.readdir(workspacePath, { withFileTypes: true });
+  const repos: string[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name.startsWith('.')) continue;
+    try {
+      await fs.access(path.join(workspacePath, entry.name, '.git'));
+      repos.push(entry.name);
+    } catch {
+      // Not a repo
+    }
+  }
+  return repos.sort();
+}
+
+/**
+ * Tracked files in a worktree that contain the flag key
+ */
+async function findCandidateFiles(worktreePath: string, flagKey: string): Promise<string[]> {
+  const result = await execa('git', ['grep', '-l', '-I', '-z', '-F', '-e', flagKey], {
+    cwd: worktreePath,
+    reject: false,
+  });
+  if (result.exitCode === 1) return [];
+  if (result.exitCode !== 0) {
+    throw new Error(`git grep failed in ${worktreePath}: ${result.stderr}`);
+  }
+  return result.stdout.split('\0').filter(Boolean);
+}
+
+export interface CodemodOptions {
+  flagKey: string;
+  keepBranch: 'enabled' | 'disabled';
+  calls: string[];
+}
+
+export interface CodemodResult {
+  summary: string;
+  filesChanged: string[]; // `<repo>/<file>`
+  remaining: string[]; // `<repo>/<file>:<line>` of quoted keys left in place
+}
+
+/**
+ * Rewrites the flag checks in every repo of a workspace, leaving everything else untouched
+ */
+export async function applyCodemod(
+  workspacePath: string,
+  options: CodemodOptions,
+  logger: Logger = consoleLogger
+): Promise<CodemodResult> {
+  const { flagKey, keepBranch, calls } = options;
+  const quotedKey = new RegExp(`["'\`]${escapeRegExp(flagKey)}["'\`]`);
+  const filesChanged: string[] = [];
+  const importsRemoved: string[] = [];
+  const remaining: string[] = [];
+  let checksRemoved = 0;
+
+  for (const repo of await listWorkspaceRepos(workspacePath)) {
+    const worktreePath = path.join(workspacePath, repo);
+    for (const file of await findCandidateFiles(worktreePath, flagKey)) {
+      const filePath = path.join(worktreePath, file);
+      let text = await fs.readFile(filePath, 'utf-8');
+
+      if (CODE_FILE.test(file) && !file.endsWith('.d.ts')) {
+        const result = removeFlagChecks(text, file, { flagKey, keepBranch, calls });
+        if (result.text !== text) {
+          text = result.text;
+          await fs.writeFile(filePath, text);
+          filesChanged.push(`${repo}/${file}`);
+          checksRemoved += result.checksRemoved;
+          importsRemoved.push(...result.importsRemoved);
+          logger.log(`  ${repo}/${file}: inlined ${result.checksRemoved} flag check(s)`);
+        }
+      }
+
+      text.split('\n').forEach((line, index) => {
+        if (quotedKey.test(line)) remaining.push(`${repo}/${file}:${index + 1}`);
+      });
+    }
+  }
+
+  const summary = `Inlined the ${keepBranch} branch of ${checksRemoved} flag check(s) in ${filesChanged.length} file(s)${
+    importsRemoved.length > 0 ? ` and removed ${importsRemoved.length} unused import(s)` : ''
+  }.`;
+  return { summary, filesChanged, remaining };
+}
+
+/**
+ * Reports codemod edits in the agent output shape. No checks ran, so none are marked as passing.
+ */
+export function codemodOutput(
+  status: AgentOutput['status'],
+  summary: string,
+  filesChanged: string[]
+): AgentOutput {
+  const notRun = 'Not run: the codemod does not run checks';
+  return {
+    status,
+    summary,
+    filesChanged,
+    testsPass: false,
+    lintPass: false,
+    typecheckPass: false,
+    verificationDetails: { tests: notRun, lint: notRun, typecheck: notRun },
+  };
+}
+
+export async function runCodemod(context: AgentInvocationContext, calls: string[]): Promise<AgentOutput> {
+  const { workspacePath, flagKey, keepBranch, keepVariant, logger = consoleLogger } = context;
+
+  if (keepVariant) {
+    return codemodOutput(
+      'refused',
+      `The codemod only removes boolean flags; "${flagKey}" keeps variant "${keepVariant}".`,
+      []
+    );
+  }
+
+  const { summary, filesChanged, remaining } = await applyCodemod(
+    workspacePath,
+    { flagKey, keepBranch, calls },
+    logger
+  );
+
+  if (remaining.length > 0) {
+    const listed = remaining.slice(0, MAX_LISTED_REMAINING).join(', ');
+    const more =
+      remaining.length > MAX_LISTED_REMAINING ? ` …and ${remaining.length - MAX_LISTED_REMAINING} more` : '';
+    return codemodOutput(
+      'refused',
+      `${summary} ${remaining.length} reference(s) to "${flagKey}" need manual changes: ${listed}${more}`,
+      filesChanged
+    );
+  }
+
+  return codemodOutput('success', summary, filesChanged);
+}
@@ -0,0 +1,627 @@
+/**
+ * Flag-check inlining for one TypeScript/JavaScript file.
+ *
+ * Finds configured flag-check calls (`isFeatureEnabled('my-flag')`) and `const` aliases of them,
+ * then inlines the kept branch of:
+ * - `if` / `else` statements
+ * - ternaries
+ * - `&&` / `||` expressions, including JSX conditionals (`{flag && <New />}`)
+ *
+ * Edits are spliced into the original text, so untouched code keeps its formatting and comments.
+ * Checks in any other position (e.g. `track(isFeatureEnabled('my-flag'))`) are left in place;
+ * the caller reports them as references that need manual work.
+ */
+
+import ts from 'typescript';
+
+export interface FlagCheckOptions {
+  flagKey: string;
+  keepBranch: 'enabled' | 'disabled';
+  calls: string[]; // Callee names, e.g. `isFeatureEnabled` (any receiver) or `posthog.isFeatureEnabled`
+}
+
+export interface TransformResult {
+  text: string;
+  checksRemoved: number;
+  importsRemoved: string[];
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export function removeFlagChecks(text: string, fileName: string, options: FlagCheckOptions): TransformResult {
+  const original = parse(text, fileName);
+  const aliases = findAliases(original, options);
+  const checksBefore = countChecks(original, options, aliases);
+
+  // Drop alias declarations only when every use of the alias could be inlined
+  const keptAliases = new Set<string>();
+  let rewritten = text;
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const removable = new Set([...aliases].filter((alias) => !keptAliases.has(alias)));
+    rewritten = rewriteFile(original, options, aliases, removable);
+    const remaining = findAliasReferences(parse(rewritten, fileName), removable);
+    if (remaining.size === 0) break;
+    for (const alias of remaining) keptAliases.add(alias);
+  }
+
+  if (rewritten === text) {
+    return { text, checksRemoved: 0, importsRemoved: [] };
+  }
+
+  const result = parse(rewritten, fileName);
+  const checksAfter = countChecks(result, options, keptAliases);
+  const { text: withoutImports, removed } = removeUnusedImports(original, result);
+  return { text: withoutImports, checksRemoved: checksBefore - checksAfter, importsRemoved: removed };
+}
+
+function parse(text: string, fileName: string): ts.SourceFile {
+  const extension = fileName.slice(fileName.lastIndexOf('.'));
+  const scriptKind =
+    extension === '.tsx'
+      ? ts.ScriptKind.TSX
+      : extension === '.ts' || extension === '.mts' || extension === '.cts'
+        ? ts.ScriptKind.TS
+        : extension === '.jsx'
+          ? ts.ScriptKind.JSX
+          : ts.ScriptKind.JS;
+  return ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true, scriptKind);
+}
+
+function forEachNode(node: ts.Node, visit: (node: ts.Node) => void): void {
+  visit(node);
+  node.forEachChild((child) => forEachNode(child, visit));
+}
+
+function isFlagCall(node: ts.Node, options: FlagCheckOptions): node is ts.CallExpression {
+  if (!ts.isCallExpression(node) || node.arguments.length === 0) return false;
+  const [firstArgument] = node.arguments;
+  if (!ts.isStringLiteral(firstArgument) && !ts.isNoSubstitutionTemplateLiteral(firstArgument)) return false;
+  if (firstArgument.text !== options.flagKey) return false;
+
+  const callee = node.expression;
+  const calleeText = callee.getText().replace(/\s+/g, '').replace(/\?\./g, '.');
+  return options.calls.some((call) => {
+    if (call.includes('.')) return calleeText === call;
+    if (ts.isIdentifier(callee)) return callee.text === call;
+    return ts.isPropertyAccessExpression(callee) && callee.name.text === call;
+  });
+}
+
+/**
+ * Identifiers that read a variable (not property names, declarations or import bindings)
+ */
+function isReference(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  if (ts.isPropertyAccessExpression(parent) && parent.name === node) return false;
+  if (ts.isQualifiedName(parent) && parent.right === node) return false;
+  if ((ts.isPropertyAssignment(parent) || ts.isMethodDeclaration(parent)) && parent.name === node)
+    return false;
+  if ((ts.isPropertyDeclaration(parent) || ts.isPropertySignature(parent)) && parent.name === node)
+    return false;
+  if (ts.isJsxAttribute(parent) && parent.name === node) return false;
+  if (ts.isVariableDeclaration(parent) && parent.name === node) return false;
+  if (ts.isImportSpecifier(parent) || ts.isImportClause(parent) || ts.isNamespaceImport(parent)) return false;
+  return true;
+}
+
+/**
+ * `const enabled = useFeatureFlagEnabled('my-flag')`, when `enabled` is declared nowhere else
+ */
+function findAliases(sourceFile: ts.SourceFile, options: FlagCheckOptions): Set<string> {
+  const candidates: string[] = [];
+  const declarationCounts = new Map<string, number>();
+
+  forEachNode(sourceFile, (node) => {
+    if (
+      (ts.isVariableDeclaration(node) ||
+        ts.isBindingElement(node) ||
+        ts.isParameter(node) ||
+        ts.isFunctionDeclaration(node) ||
+        ts.isClassDeclaration(node)) &&
+      node.name &&
+      ts.isIdentifier(node.name)
+    ) {
+      declarationCounts.set(node.name.text, (declarationCounts.get(node.name.text) ?? 0) + 1);
+    }
+
+    if (
+      ts.isVariableDeclaration(node) &&
+      ts.isIdentifier(node.name) &&
+      node.initializer &&
+      isFlagCall(node.initializer, options) &&
+      ts.isVariableDeclarationList(node.parent) &&
+      node.parent.flags & ts.NodeFlags.Const &&
+      node.parent.declarations.length === 1 &&
+      ts.isVariableStatement(node.parent.parent)
+    ) {
+      candidates.push(node.name.text);
+    }
+  });
+
+  return new Set(candidates.filter((name) => declarationCounts.get(name) === 1));
+}
+
+function findAliasReferences(sourceFile: ts.SourceFile, aliases: Set<string>): Set<string> {
+  const found = new Set<string>();
+  if (aliases.size === 0) return found;
+  forEachNode(sourceFile, (node) => {
+    if (ts.isIdentifier(node) && aliases.has(node.text) && isReference(node)) found.add(node.text);
+  });
+  return found;
+}
+
+function countChecks(sourceFile: ts.SourceFile, options: FlagCheckOptions, aliases: Set<string>): number {
+  let count = 0;
+  forEachNode(sourceFile, (node) => {
+    if (isFlagCall(node, options)) count++;
+    else if (ts.isIdentifier(node) && aliases.has(node.text) && isReference(node)) count++;
+  });
+  return count;
+}
+
+function isStatementList(node: ts.Node): boolean {
+  return (
+    ts.isBlock(node) ||
+    ts.isSourceFile(node) ||
+    ts.isCaseClause(node) ||
+    ts.isDefaultClause(node) ||
+    ts.isModuleBlock(node)
+  );
+}
+
+function declaredNames(statements: readonly ts.Statement[]): Set<string> {
+  const names = new Set<string>();
+  const addBinding = (name: ts.BindingName) => {
+    if (ts.isIdentifier(name)) {
+      names.add(name.text);
+      return;
+    }
+    for (const element of name.elements) {
+      if (!ts.isOmittedExpression(element)) addBinding(element.name);
+    }
+  };
+  for (const statement of statements) {
+    if (ts.isVariableStatement(statement)) {
+      statement.declarationList.declarations.forEach((declaration) => addBinding(declaration.name));
+    } else if (
+      (ts.isFunctionDeclaration(statement) ||
+        ts.isClassDeclaration(statement) ||
+        ts.isEnumDeclaration(statement)) &&
+      statement.name
+    ) {
+      names.add(statement.name.text);
+    }
+  }
+  return names;
+}
+
+function isJsx(node: ts.Expression): boolean {
+  return ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node);
+}
+
+function skipParentheses(node: ts.Expression): ts.Expression {
+  return ts.isParenthesizedExpression(node) ? skipParentheses(node.expression) : node;
+}
+
+function isNothing(node: ts.Expression): boolean {
+  return (
+    node.kind === ts.SyntaxKind.NullKeyword ||
+    node.kind === ts.SyntaxKind.FalseKeyword ||
+    (ts.isIdentifier(node) && node.text === 'undefined')
+  );
+}
+
+/**
+ * Expressions that never need parentheses when they replace a ternary
+ */
+function isPrimary(node: ts.Expression): boolean {
+  return (
+    ts.isIdentifier(node) ||
+    ts.isLiteralExpression(node) ||
+    ts.isParenthesizedExpression(node) ||
+    ts.isCallExpression(node) ||
+    ts.isPropertyAccessExpression(node) ||
+    ts.isElementAccessExpression(node) ||
+    ts.isObjectLiteralExpression(node) ||
+    ts.isArrayLiteralExpression(node) ||
+    ts.isTemplateExpression(node) ||
+    isJsx(node) ||
+    node.kind === ts.SyntaxKind.TrueKeyword ||
+    node.kind === ts.SyntaxKind.FalseKeyword ||
+    node.kind === ts.SyntaxKind.NullKeyword ||
+    node.kind === ts.SyntaxKind.ThisKeyword
+  );
+}
+
+function rewriteFile(
+  sourceFile: ts.SourceFile,
+  options: FlagCheckOptions,
+  aliases: Set<string>,
+  removableAliases: Set<string>
+): string {
+  const source = sourceFile.text;
+  const kept = options.keepBranch === 'enabled';
+  const textOf = (node: ts.Node) => source.slice(node.getStart(sourceFile), node.end);
+
+  const isFlagCheck = (node: ts.Node): boolean =>
+    isFlagCall(node, options) || (ts.isIdentifier(node) && aliases.has(node.text) && isReference(node));
+
+  /**
+   * Truthiness of an expression when the flag is the only thing known about it
+   */
+  const staticValue = (node: ts.Expression): boolean | undefined => {
+    if (ts.isParenthesizedExpression(node)) return staticValue(node.expression);
+    if (isFlagCheck(node)) return kept;
+    if (ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.ExclamationToken) {
+      const value = staticValue(node.operand);
+      return value === undefined ? undefined : !value;
+    }
+    if (ts.isBinaryExpression(node)) {
+      const operator = node.operatorToken.kind;
+      if (operator === ts.SyntaxKind.AmpersandAmpersandToken) {
+        const left = staticValue(node.left);
+        if (left === false) return false;
+        const right = staticValue(node.right);
+        return left === true ? right : right === false ? false : undefined;
+      }
+      if (operator === ts.SyntaxKind.BarBarToken) {
+        const left = staticValue(node.left);
+        if (left === true) return true;
+        const right = staticValue(node.right);
+        return left === false ? right : right === true ? true : undefined;
+      }
+    }
+    return undefined;
+  };
+
+  /**
+   * Applies edits (relative to the source) to a node's text
+   */
+  const splice = (node: ts.Node, edits: Edit[]): string | undefined => {
+    if (edits.length === 0) return undefined;
+    // The file keeps its leading comments
+    const start = ts.isSourceFile(node) ? 0 : node.getStart(sourceFile);
+    let text = source.slice(start, node.end);
+    for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+      text = text.slice(0, edit.start - start) + edit.text + text.slice(edit.end - start);
+    }
+    return text;
+  };
+
+  /**
+   * Edit for a rewritten child; removed children take their whole line with them when alone on it
+   */
+  const childEdit = (child: ts.Node, text: string): Edit => {
+    let start = child.getStart(sourceFile);
+    let end = child.end;
+    if (text === '') {
+      const lineStart = source.lastIndexOf('\n', start - 1) + 1;
+      const lineEnd = source.indexOf('\n', end);
+      const before = source.slice(lineStart, start);
+      const after = source.slice(end, lineEnd === -1 ? source.length : lineEnd);
+      if (before.trim() === '' && after.trim() === '') {
+        start = lineStart;
+        end = lineEnd === -1 ? source.length : lineEnd + 1;
+      }
+    }
+    return { start, end, text };
+  };
+
+  const spliceChildren = (
+    node: ts.Node,
+    rewriteChild: (child: ts.Node) => string | undefined = rewrite
+  ): string | undefined => {
+    const edits: Edit[] = [];
+    node.forEachChild((child) => {
+      const text = rewriteChild(child);
+      if (text !== undefined) edits.push(childEdit(child, text));
+    });
+    return splice(node, edits);
+  };
+
+  /**
+   * Rewrites an expression whose result is only used for its truthiness
+   */
+  const rewriteCondition = (node: ts.Node): string | undefined => {
+    if (!ts.isBinaryExpression(node)) {
+      return ts.isParenthesizedExpression(node) || ts.isPrefixUnaryExpression(node)
+        ? spliceChildren(node, rewriteCondition)
+        : rewrite(node);
+    }
+    const operator = node.operatorToken.kind;
+    if (operator !== ts.SyntaxKind.AmpersandAmpersandToken && operator !== ts.SyntaxKind.BarBarToken) {
+      return rewrite(node);
+    }
+    // `x && <true>` is `x`, `x || <false>` is `x`
+    const neutral = operator === ts.SyntaxKind.AmpersandAmpersandToken;
+    if (staticValue(node.left) === neutral) return rewriteCondition(node.right) ?? textOf(node.right);
+    if (staticValue(node.right) === neutral) return rewriteCondition(node.left) ?? textOf(node.left);
+    return spliceChildren(node, rewriteCondition);
+  };
+
+  /**
+   * Statements of a kept block, re-indented to replace `replaced`
+   */
+  const unwrapBlock = (block: ts.Block, replaced: ts.Statement): string => {
+    if (block.statements.length === 0) return '';
+
+    // Keep the braces unless the block's bindings are provably its own: a name that also appears
+    // outside the block could be a parameter, an outer binding it would shadow, or a later read
+    const blockNames = declaredNames(block.statements);
+    let sharesName = false;
+    forEachNode(sourceFile, (node) => {
+      if (
+        ts.isIdentifier(node) &&
+        blockNames.has(node.text) &&
+        (node.getStart(sourceFile) < block.getStart(sourceFile) || node.end > block.end)
+      ) {
+        sharesName = true;
+      }
+    });
+    if (sharesName) {
+      return rewrite(block) ?? textOf(block);
+    }
+
+    const blockText = rewrite(block) ?? textOf(block);
+    const lines = blockText.slice(1, -1).split('\n');
+    while (lines.length > 0 && lines[0].trim() === '') lines.shift();
+    while (lines.length > 0 && lines[lines.length - 1].trim() === '') lines.pop();
+    if (lines.length === 0) return '';
+
+    const replacedStart = replaced.getStart(sourceFile);
+    const indent = /^[ \t]*/.exec(source.slice(source.lastIndexOf('\n', replacedStart - 1) + 1))![0];
+
+    // Re-indenting would change multi-line template literals
+    let multilineTemplate = false;
+    forEachNode(block, (node) => {
+      if (
+        (ts.isTemplateExpression(node) || ts.isNoSubstitutionTemplateLiteral(node)) &&
+        textOf(node).includes('\n')
+      ) {
+        multilineTemplate = true;
+      }
+    });
+    if (multilineTemplate) {
+      return [lines[0].trimStart(), ...lines.slice(1)].join('\n');
+    }
+
+    const minIndent = Math.min(
+      ...lines.filter((line) => line.trim() !== '').map((line) => /^[ \t]*/.exec(line)![0].length)
+    );
+    return lines
+      .map((line, index) => {
+        if (line.trim() === '') return '';
+        return `${index === 0 ? '' : indent}${line.slice(minIndent).trimEnd()}`;
+      })
+      .join('\n');
+  };
+
+  const rewriteIf = (node: ts.IfStatement): string | undefined => {
+    const value = staticValue(node.expression);
+    if (value === undefined) {
+      const edits: Edit[] = [];
+      const condition = rewriteCondition(node.expression);
+      if (condition !== undefined) edits.push(childEdit(node.expression, condition));
+      const thenText = rewrite(node.thenStatement);
+      if (thenText !== undefined) edits.push(childEdit(node.thenStatement, thenText || '{}'));
+      if (node.elseStatement) {
+        const elseText = rewrite(node.elseStatement);
+        if (elseText === '') {
+          edits.push({ start: node.thenStatement.end, end: node.elseStatement.end, text: '' });
+        } else if (elseText !== undefined) {
+          edits.push(childEdit(node.elseStatement, elseText));
+        }
+      }
+      return splice(node, edits);
+    }
+
+    const branch = value ? node.thenStatement : node.elseStatement;
+    const inList = isStatementList(node.parent);
+    const isElse = ts.isIfStatement(node.parent) && node.parent.elseStatement === node;
+    if (!branch) return inList || isElse ? '' : '{}';
+    if (inList && ts.isBlock(branch)) return unwrapBlock(branch, node);
+    return rewrite(branch) ?? textOf(branch);
+  };
+
+  const rewriteConditional = (node: ts.ConditionalExpression): string | undefined => {
+    const value = staticValue(node.condition);
+    if (value === undefined) {
+      return spliceChildren(node, (child) =>
+        child === node.condition ? rewriteCondition(child) : rewrite(child)
+      );
+    }
+    const branch = value ? node.whenTrue : node.whenFalse;
+    const text = rewrite(branch) ?? textOf(branch);
+    const parent = node.parent;
+    // An arrow body or a statement that starts with `{` would parse as a block: `() => ({ a: 1 })`
+    const isBody = (ts.isArrowFunction(parent) && parent.body === node) || ts.isExpressionStatement(parent);
+    if (isBody && text.trimStart().startsWith('{')) return `(${text})`;
+    const needsParentheses =
+      !isPrimary(branch) &&
+      !ts.isParenthesizedExpression(parent) &&
+      !ts.isJsxExpression(parent) &&
+      !ts.isVariableDeclaration(parent) &&
+      !ts.isReturnStatement(parent) &&
+      !ts.isExpressionStatement(parent) &&
+      !ts.isArrowFunction(parent) &&
+      !(ts.isCallExpression(parent) && parent.arguments.includes(node)) &&
+      !ts.isPropertyAssignment(parent);
+    return needsParentheses ? `(${text})` : text;
+  };
+
+  /**
+   * `(flag ? 'new' : 'old')` becomes `'new'` rather than `('new')`
+   */
+  const rewriteParenthesized = (node: ts.ParenthesizedExpression): string | undefined => {
+    const inner = node.expression;
+    if (!ts.isConditionalExpression(inner)) return spliceChildren(node);
+    const value = staticValue(inner.condition);
+    if (value === undefined) return spliceChildren(node);
+    const branch = value ? inner.whenTrue : inner.whenFalse;
+    if (!isPrimary(branch) || ts.isObjectLiteralExpression(branch)) return spliceChildren(node);
+    return rewrite(branch) ?? textOf(branch);
+  };
+
+  /**
+   * `&&` / `||` used as a value: operands are values too, so a flag check that does not decide
+   * the result becomes its literal (`name && true`) instead of being dropped
+   */
+  const rewriteLogical = (node: ts.BinaryExpression): string | undefined => {
+    const operator = node.operatorToken.kind;
+    const left = staticValue(node.left);
+    if (operator === ts.SyntaxKind.AmpersandAmpersandToken) {
+      if (left === true) return rewrite(node.right) ?? textOf(node.right);
+      if (left === false) return 'false';
+    } else {
+      if (left === true) return 'true';
+      if (left === false) return rewrite(node.right) ?? textOf(node.right);
+    }
+    return spliceChildren(node, (child) =>
+      child === node.left || child === node.right
+        ? isFlagCheck(skipParentheses(child as ts.Expression))
+          ? String(kept)
+          : rewrite(child)
+        : undefined
+    );
+  };
+
+  /**
+   * `{flag && <New />}` and `{flag ? <New /> : <Old />}` as JSX children
+   */
+  const rewriteJsxChild = (node: ts.JsxExpression): string | undefined => {
+    const expression = node.expression && skipParentheses(node.expression);
+    if (!expression) return undefined;
+
+    let keptBranch: ts.Expression | null | undefined;
+    if (
+      ts.isBinaryExpression(expression) &&
+      expression.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken
+    ) {
+      const value = staticValue(expression.left);
+      if (value !== undefined) keptBranch = value ? expression.right : null;
+    } else if (ts.isConditionalExpression(expression)) {
+      const value = staticValue(expression.condition);
+      if (value !== undefined) keptBranch = value ? expression.whenTrue : expression.whenFalse;
+    }
+
+    if (keptBranch === undefined) return spliceChildren(node);
+    if (keptBranch === null || isNothing(skipParentheses(keptBranch))) return '';
+    const inner = skipParentheses(keptBranch);
+    const text = rewrite(inner) ?? textOf(inner);
+    return isJsx(inner) ? text : `{${text}}`;
+  };
+
+  function rewrite(node: ts.Node): string | undefined {
+    if (ts.isIfStatement(node)) return rewriteIf(node);
+    if (ts.isConditionalExpression(node)) return rewriteConditional(node);
+    if (ts.isParenthesizedExpression(node)) return rewriteParenthesized(node);
+    // Only the truthiness of a negated expression matters
+    if (ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.ExclamationToken) {
+      return spliceChildren(node, rewriteCondition);
+    }
+    if (
+      ts.isBinaryExpression(node) &&
+      (node.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken ||
+        node.operatorToken.kind === ts.SyntaxKind.BarBarToken)
+    ) {
+      return rewriteLogical(node);
+    }
+    if (ts.isJsxExpression(node) && (ts.isJsxElement(node.parent) || ts.isJsxFragment(node.parent))) {
+      return rewriteJsxChild(node);
+    }
+    if (
+      ts.isVariableStatement(node) &&
+      node.declarationList.declarations.length === 1 &&
+      ts.isIdentifier(node.declarationList.declarations[0].name) &&
+      removableAliases.has(node.declarationList.declarations[0].name.text)
+    ) {
+      return '';
+    }
+    return spliceChildren(node);
+  }
+
+  return rewrite(sourceFile) ?? source;
+}
+
+/**
+ * Removes import bindings that were used before the rewrite and are not used anymore
+ */
+function removeUnusedImports(
+  original: ts.SourceFile,
+  rewritten: ts.SourceFile
+): { text: string; removed: string[] } {
+  const usedNames = (sourceFile: ts.SourceFile) => {
+    const names = new Set<string>();
+    forEachNode(sourceFile, (node) => {
+      if (ts.isIdentifier(node) && !isInImport(node)) names.add(node.text);
+    });
+    return names;
+  };
+  const usedBefore = usedNames(original);
+  const usedAfter = usedNames(rewritten);
+  const isUnused = (name: ts.Identifier) => usedBefore.has(name.text) && !usedAfter.has(name.text);
+
+  const source = rewritten.text;
+  const edits: Edit[] = [];
+  const removed: string[] = [];
+
+  for (const statement of rewritten.statements) {
+    if (!ts.isImportDeclaration(statement) || !statement.importClause) continue;
+    const clause = statement.importClause;
+    const named = clause.namedBindings;
+
+    const defaultName = clause.name && !isUnused(clause.name) ? clause.name.text : undefined;
+    let bindings: string | undefined;
+    if (named && ts.isNamespaceImport(named)) {
+      if (!isUnused(named.name)) bindings = named.getText(rewritten);
+    } else if (named) {
+      const keptElements = named.elements.filter((element) => !isUnused(element.name));
+      if (keptElements.length > 0) {
+        bindings =
+          keptElements.length === named.elements.length
+            ? named.getText(rewritten)
+            : `{ ${keptElements.map((element) => element.getText(rewritten)).join(', ')} }`;
+      }
+    }
+
+    const allNames = [
+      ...(clause.name ? [clause.name] : []),
+      ...(named ? (ts.isNamespaceImport(named) ? [named.name] : named.elements.map((e) => e.name)) : []),
+    ];
+    const unused = allNames.filter(isUnused).map((name) => name.text);
+    if (unused.length === 0) continue;
+    removed.push(...unused);
+
+    const start = statement.getStart(rewritten);
+    if (!defaultName && !bindings) {
+      const lineEnd = source.indexOf('\n', statement.end);
+      edits.push({ start, end: lineEnd === -1 ? source.length : lineEnd + 1, text: '' });
+      continue;
+    }
+    const specifiers = [defaultName, bindings].filter(Boolean).join(', ');
+    const typeOnly = clause.isTypeOnly ? 'type ' : '';
+    const semicolon = source.slice(start, statement.end).trimEnd().endsWith(';') ? ';' : '';
+    edits.push({
+      start,
+      end: statement.end,
+      text: `import ${typeOnly}${specifiers} from ${statement.moduleSpecifier.getText(rewritten)}${semicolon}`,
+    });
+  }
+
+  let text = source;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    text = text.slice(0, edit.start) + edit.text + text.slice(edit.end);
+  }
+  return { text, removed };
+}
+
+function isInImport(node: ts.Node): boolean {
+  for (let current: ts.Node | undefined = node.parent; current; current = current.parent) {
+    if (ts.isImportDeclaration(current)) return true;
+  }
+  return false;
+}
@@ -1,7 +1,16 @@
 import { execa } from 'execa';
-import type { AgentKind, AgentOutput, Logger, RepoResult } from '../types.ts';
+import type {
+  AgentKind,
+  AgentOutput,
+  Logger,
+  RepoResult,
+  ReviewVerdict,
+  VerificationResult,
+} from '../types.ts';
 import { consoleLogger } from '../types.ts';
 import { CONFIG } from '../config.ts';
+import { describeFailure } from './verify.ts';
+import type { ScopeReport } from './scope-guard.ts';
 
 /**
  * Checks if a worktree has uncommitted changes
@@ -47,6 +56,29 @@ Generated by bye-bye-flag`,
   await execa('git', ['push', '-u', 'origin', branchName], { cwd: worktreePath });
 }
 
+/**
+ * Provider-supplied details about the flag, shown in the PR body
+ */
+export interface FlagDetails {
+  createdBy?: string;
+  lastEvaluatedAt?: string; // ISO date of the last $feature_flag_called event (if checked)
+}
+
+/**
+ * Edits the codemod made before the agent ran (`agent.codemodFirst`), listed apart in the PR body
+ */
+export interface CodemodChanges {
+  summary: string;
+  filesChanged: string[];
+}
+
+/**
+ * The reviewer agent's verdict on the diff (`reviewer`), shown in the PR body
+ */
+export interface DiffReview extends ReviewVerdict {
+  reviewer: AgentKind;
+}
+
 /**
  * Commits and pushes changes for multiple repos, creates PRs
  * Returns results for each repo
@@ -60,7 +92,11 @@ export async function commitAndPushMultiRepo(
   agentKind: AgentKind,
   sessionId: string | undefined,
   resumeCommand: string,
-  flagCreatedBy?: string,
+  flagDetails: FlagDetails = {},
+  codemodChanges?: CodemodChanges,
+  verification: Record<string, VerificationResult[]> = {},
+  review?: DiffReview,
+  scope: Record<string, ScopeReport> = {},
   logger: Logger = consoleLogger
 ): Promise<RepoResult[]> {
   const results: RepoResult[] = [];
@@ -111,8 +147,12 @@ export async function commitAndPushMultiRepo(
         agentKind,
         sessionId,
         resumeCommand,
-        flagCreatedBy,
+        flagDetails,
         successfulRepos.filter((r) => r.repoName !== result.repoName).map((r) => r.repoName),
+        codemodChanges,
+        verification[result.repoName],
+        review,
+        scope[result.repoName],
         logger
       );
       result.prUrl = prUrl;
@@ -314,8 +354,12 @@ export async function createPR(
   agentKind: AgentKind,
   sessionId: string | undefined,
   resumeCommand: string,
-  flagCreatedBy: string | undefined,
+  flagDetails: FlagDetails,
   relatedRepos: string[] = [],
+  codemodChanges?: CodemodChanges,
+  verification: VerificationResult[] = [],
+  review?: DiffReview,
+  scope?: ScopeReport,
   logger: Logger = consoleLogger
 ): Promise<string> {
   const body = generatePRBody(
@@ -326,8 +370,12 @@ export async function createPR(
     agentKind,
     sessionId,
     resumeCommand,
-    flagCreatedBy,
-    relatedRepos
+    flagDetails,
+    relatedRepos,
+    codemodChanges,
+    verification,
+    review,
+    scope
   );
   const title = getPRTitle(flagKey);
 
@@ -362,21 +410,62 @@ function generatePRBody(
   agentKind: AgentKind,
   sessionId: string | undefined,
   resumeCommand: string,
-  flagCreatedBy: string | undefined,
-  relatedRepos: string[] = []
+  flagDetails: FlagDetails,
+  relatedRepos: string[] = [],
+  codemodChanges?: CodemodChanges,
+  verification: VerificationResult[] = [],
+  review?: DiffReview,
+  scope?: ScopeReport
 ): string {
-  const filesChangedList = agentOutput.filesChanged.map((f) => `- \`${f}\``).join('\n');
+  const formatFiles = (files: string[]) => files.map((f) => `- \`${f}\``).join('\n');
+  const filesChangedList = formatFiles(agentOutput.filesChanged);
+
+  // Hybrid mode: tell reviewers which edits are mechanical and which the agent made
+  const changesSection = codemodChanges
+    ? `**Mechanical (codemod):** ${codemodChanges.summary}
+${formatFiles(codemodChanges.filesChanged)}
+
+**By the agent (\`${agentKind}\`):**
+${filesChangedList || '_No files listed_'}`
+    : filesChangedList || '_No files listed_';
+
+  // Checks with verify commands report their real exit codes, the others what the agent claims
+  const checks = [
+    { key: 'tests' as const, verifyCheck: 'test', label: 'Tests', claimed: agentOutput.testsPass },
+    { key: 'lint' as const, verifyCheck: 'lint', label: 'Lint', claimed: agentOutput.lintPass },
+    {
+      key: 'typecheck' as const,
+      verifyCheck: 'typecheck',
+      label: 'Typecheck',
+      claimed: agentOutput.typecheckPass,
+    },
+  ].map((check) => {
+    const runs = verification.filter((result) => result.check === check.verifyCheck);
+    const failed = runs.find((result) => result.exitCode !== 0);
+    return { ...check, runs, failed, pass: runs.length > 0 ? !failed : check.claimed };
+  });
+  const checksPass = checks.every((check) => check.pass);
+  const failedChecks = checks.filter((check) => !check.pass);
 
-  const checksPass = agentOutput.testsPass && agentOutput.lintPass && agentOutput.typecheckPass;
-  const failedChecks = [
-    { key: 'tests' as const, label: 'Tests', pass: agentOutput.testsPass },
-    { key: 'lint' as const, label: 'Lint', pass: agentOutput.lintPass },
-    { key: 'typecheck' as const, label: 'Typecheck', pass: agentOutput.typecheckPass },
-  ].filter((check) => !check.pass);
+  const checkboxLines = checks
+    .map((check) => {
+      const source =
+        check.runs.length > 0
+          ? check.runs.map((result) => `\`${result.command}\``).join(', ')
+          : '_reported by the agent_';
+      return `- [${check.pass ? 'x' : ' '}] ${check.label} pass (${source})`;
+    })
+    .join('\n');
 
   const failedChecksList = failedChecks.map((check) => `- ${check.label}`).join('\n');
   const failureDetailLines = failedChecks
     .map((check) => {
+      if (check.failed) {
+        const output = check.failed.output
+          ? `\n\n<details>\n<summary>Output</summary>\n\n\`\`\`\n${check.failed.output}\n\`\`\`\n\n</details>\n`
+          : '';
+        return `- **${check.label}:** \`${check.failed.command}\` ${describeFailure(check.failed)}${output}`;
+      }
       const detail = agentOutput.verificationDetails?.[check.key];
       if (!detail) return null;
       const normalizedDetail = detail.replace(/\s+/g, ' ').trim();
@@ -392,6 +481,25 @@ function generatePRBody(
 ${failedChecksList}
 
 ${failureDetailLines ? `### Failure Details\n${failureDetailLines}` : '_No extra failure details were provided by the agent._'}
+`
+    : '';
+
+  const reviewSection = review
+    ? `
+## Review
+
+**${review.verdict === 'approve' ? '✅ Approved' : '❌ Changes requested'}** by the reviewer agent (\`${review.reviewer}\`): ${review.summary}
+${review.reasons.map((reason) => `- ${reason}`).join('\n')}
+${review.verdict === 'request-changes' ? '\n⚠️ **The reviewer found problems. Please check them before merging.**\n' : ''}`
+    : '';
+
+  // Warned findings are still in the diff; stripped ones were reverted before the commit
+  const scopeSection = scope
+    ? `
+## Scope Check
+
+${scope.mode === 'strip' ? 'These changes looked unrelated to the flag and were reverted:' : '⚠️ **These changes look unrelated to the flag. Please check them before merging.**'}
+${scope.findings.map((finding) => `- \`${finding.file}:${finding.line}\`: ${finding.message}`).join('\n')}
 `
     : '';
 
@@ -407,12 +515,19 @@ _Check for PRs with the same branch name in those repos._
 `
       : '';
 
-  const creatorSection = flagCreatedBy
-    ? `
+  const flagMetadataLines = [
+    flagDetails.createdBy ? `- **Flag creator (from provider):** \`${flagDetails.createdBy}\`` : null,
+    flagDetails.lastEvaluatedAt
+      ? `- **Last evaluated (from provider):** ${flagDetails.lastEvaluatedAt}`
+      : null,
+  ].filter((line): line is string => line !== null);
+  const creatorSection =
+    flagMetadataLines.length > 0
+      ? `
 ## Flag Metadata
-- **Flag creator (from provider):** \`${flagCreatedBy}\`
+${flagMetadataLines.join('\n')}
 `
-    : '';
+      : '';
 
   return `> 🤖 This PR was automatically generated by [bye-bye-flag](https://github.com/RelevanceAI/bye-bye-flag) using \`${agentKind}\`.
 
@@ -424,15 +539,15 @@ ${agentOutput.summary}
 ${creatorSection}
 ${relatedReposSection}
 ## Changes
-${filesChangedList || '_No files listed_'}
+${changesSection}
 
 ## Verification
-- [${agentOutput.testsPass ? 'x' : ' '}] Tests pass
-- [${agentOutput.lintPass ? 'x' : ' '}] Lint pass
-- [${agentOutput.typecheckPass ? 'x' : ' '}] Typecheck pass
+${checkboxLines}
 
 ${!checksPass ? '⚠️ **Some checks failed. Please review before merging.**' : ''}
 ${verificationFailureSection}
+${reviewSection}
+${scopeSection}
 
 ---
 
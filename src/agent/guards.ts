@@ -0,0 +1,60 @@
+/**
+ * Change guards (`repos.<name>.guards`)
+ *
+ * Hard limits on what a removal may touch: protected paths (migrations, lockfiles, generated
+ * code, CI config), and the number of changed files and diff lines. A flag that trips one is
+ * refused instead of committed.
+ *
+ * Protected paths are git pathspec globs matched from the repo root: `*` stays within a
+ * directory, `**` crosses them.
+ */
+
+import { execa } from 'execa';
+import { getRepoGuards, type ByeByeFlagConfig } from './scaffold.ts';
+
+/**
+ * Checks a worktree's changes against the repo's guards. Returns why each tripped guard tripped.
+ */
+export async function checkGuards(
+  repoName: string,
+  worktreePath: string,
+  config: ByeByeFlagConfig
+): Promise<string[]> {
+  const guards = getRepoGuards(config, repoName);
+  if (!guards) return [];
+
+  await execa('git', ['add', '-A'], { cwd: worktreePath });
+  const violations: string[] = [];
+
+  if (guards.protectedPaths && guards.protectedPaths.length > 0) {
+    const pathspecs = guards.protectedPaths.map((pattern) => `:(glob)${pattern}`);
+    const { stdout } = await execa('git', ['diff', '--staged', '--name-only', '-z', '--', ...pathspecs], {
+      cwd: worktreePath,
+    });
+    const files = stdout.split('\0').filter(Boolean);
+    if (files.length > 0) {
+      violations.push(`changes protected path(s): ${files.join(', ')}`);
+    }
+  }
+
+  if (guards.maxChangedFiles !== undefined || guards.maxDiffLines !== undefined) {
+    // `<added>\t<deleted>\t<path>` per file, `-` counts for binary files
+    const { stdout } = await execa('git', ['diff', '--staged', '--numstat', '--no-renames'], {
+      cwd: worktreePath,
+    });
+    const stats = stdout.split('\n').filter(Boolean);
+    const diffLines = stats.reduce((total, line) => {
+      const [added, deleted] = line.split('\t');
+      return total + (Number(added) || 0) + (Number(deleted) || 0);
+    }, 0);
+
+    if (guards.maxChangedFiles !== undefined && stats.length > guards.maxChangedFiles) {
+      violations.push(`changes ${stats.length} files (limit ${guards.maxChangedFiles})`);
+    }
+    if (guards.maxDiffLines !== undefined && diffLines > guards.maxDiffLines) {
+      violations.push(`changes ${diffLines} lines (limit ${guards.maxDiffLines})`);
+    }
+  }
+
+  return violations;
+}
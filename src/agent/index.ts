@@ -4,21 +4,56 @@ import { execa } from 'execa';
 import { CONFIG } from '../config.ts';
 import {
   consoleLogger,
+  type AgentOutput,
+  type CodeReference,
   type Logger,
   type RemovalRequest,
   type RemovalResult,
   type RepoResult,
+  type VerificationResult,
 } from '../types.ts';
-import { setupMultiRepoWorktrees, cleanupMultiRepoWorktrees, type ScaffoldResult } from './scaffold.ts';
-import { generatePrompt, readContextFiles } from './prompt.ts';
-import { commitAndPushMultiRepo, findExistingPR, hasChanges, stageAndDiff } from './git.ts';
-import { resolveAgentRuntime, type AgentRuntime } from './adapters.ts';
+import {
+  setupMultiRepoWorktrees,
+  cleanupMultiRepoWorktrees,
+  getRepoScopeGuard,
+  getRepoSearch,
+  getRepoVerify,
+  type ScaffoldResult,
+} from './scaffold.ts';
+import {
+  generateFixupPrompt,
+  generatePrompt,
+  generateReviewPrompt,
+  readContextFiles,
+  readRepoContext,
+  resolvePromptTemplate,
+  validatePromptTemplates,
+} from './prompt.ts';
+import {
+  commitAndPushMultiRepo,
+  findExistingPR,
+  hasChanges,
+  stageAndDiff,
+  type CodemodChanges,
+  type DiffReview,
+} from './git.ts';
+import { resolveAgentRuntime, type AgentInvocationResult, type AgentRuntime } from './adapters.ts';
+import { applyCodemod, codemodOutput, DEFAULT_CODEMOD_CALLS } from './codemod/index.ts';
+import { describeFailure, runVerification } from './verify.ts';
+import { checkGuards } from './guards.ts';
+import { describeSecretFinding, scanStagedChanges } from './secret-scan.ts';
+import { checkScope, getScopeDiff, stripFindings, type ScopeReport } from './scope-guard.ts';
 import type { ConfigContext } from '../config-context.ts';
-import { flagExistsInCodebase, fetchAllRepos } from '../git-utils.ts';
+import { findFlagReferencesInCodebase, fetchAllRepos, findWorktreeFlagReferences } from '../git-utils.ts';
 
 export interface RemoveFlagOptions extends RemovalRequest {
   configContext: ConfigContext;
   flagCreatedBy?: string;
+  flagLastEvaluatedAt?: string;
+  flagReason?: string; // Why the fetcher picked the flag (exposed to prompt templates)
+  flagLastModified?: string;
+  flagMetadata?: Record<string, unknown>;
+  codeReferences?: CodeReference[]; // Known hits from the orchestrator's reference scan
   logger?: Logger; // Optional logger (defaults to console)
   // Internal: used by orchestrator to skip redundant preflight checks.
   skipFetch?: boolean;
@@ -74,6 +109,29 @@ async function checkPrerequisites(
     }
   }
 
+  const sandboxed = [configContext.config.agent, configContext.config.reviewer?.agent].some(
+    (agent) => agent?.sandbox
+  );
+  if (sandboxed) {
+    try {
+      await execa('bwrap', ['--version']);
+    } catch {
+      errors.push('agent.sandbox needs bubblewrap. Install the bubblewrap package (bwrap)');
+    }
+  }
+
+  const reviewerAgent = configContext.config.reviewer?.agent;
+  if (reviewerAgent) {
+    const reviewer = resolveAgentRuntime({ ...configContext.config, agent: reviewerAgent });
+    try {
+      await execa(reviewer.prerequisiteCommand, reviewer.prerequisiteArgs);
+    } catch {
+      errors.push(`Reviewer agent CLI "${reviewer.prerequisiteCommand}" is not installed or not in PATH.`);
+    }
+  }
+
+  errors.push(...(await validatePromptTemplates(configContext)));
+
   // Check gh CLI only if we'll create PRs (not dry-run)
   if (!dryRun) {
     try {
@@ -91,6 +149,137 @@ async function checkPrerequisites(
   return errors;
 }
 
+/**
+ * Runs the verify commands of every changed repo, keyed by repo name
+ */
+async function verifyWorkspace(
+  repos: ScaffoldResult['repos'],
+  config: ConfigContext['config'],
+  logger: Logger
+): Promise<Record<string, VerificationResult[]>> {
+  const verification: Record<string, VerificationResult[]> = {};
+  for (const repo of repos) {
+    if (!getRepoVerify(config, repo.name) || !(await hasChanges(repo.worktreePath))) continue;
+    logger.log(`Verifying ${repo.name}...`);
+    verification[repo.name] = await runVerification(repo.name, repo.worktreePath, config, logger);
+  }
+  return verification;
+}
+
+function listFailures(
+  verification: Record<string, VerificationResult[]>
+): Array<{ repo: string; result: VerificationResult }> {
+  return Object.entries(verification).flatMap(([repo, results]) =>
+    results.filter((result) => result.exitCode !== 0).map((result) => ({ repo, result }))
+  );
+}
+
+/**
+ * Combined diff of all worktrees, to tell whether a fix-up round changed anything
+ */
+async function workspaceDiff(repos: ScaffoldResult['repos']): Promise<string> {
+  const diffs: string[] = [];
+  for (const repo of repos) {
+    diffs.push(await stageAndDiff(repo.worktreePath));
+  }
+  return diffs.join('\n');
+}
+
+/**
+ * Runs the scope guard on every repo against the base-branch references, keyed by repo name.
+ * Only repos with findings are included.
+ */
+async function checkWorkspaceScope(
+  repos: ScaffoldResult['repos'],
+  flagKey: string,
+  references: CodeReference[],
+  config: ConfigContext['config'],
+  logger: Logger
+): Promise<Record<string, ScopeReport>> {
+  const reports: Record<string, ScopeReport> = {};
+  for (const repo of repos) {
+    const settings = getRepoScopeGuard(config, repo.name);
+    const findings = checkScope({
+      diff: await getScopeDiff(repo.worktreePath),
+      flagKey,
+      references: references.filter((reference) => reference.repo === repo.name),
+      search: getRepoSearch(config, repo.name),
+      window: settings.window,
+    });
+    if (findings.length === 0) continue;
+
+    reports[repo.name] = { mode: settings.mode ?? 'warn', findings };
+    logger.log(`Scope guard: ${findings.length} change(s) in ${repo.name} look unrelated to the flag:`);
+    for (const finding of findings) {
+      logger.log(`  ${finding.file}:${finding.line} ${finding.message}`);
+    }
+  }
+  return reports;
+}
+
+// Large diffs are cut so the review prompt stays within the reviewer's context
+const MAX_REVIEW_DIFF_CHARS = 100_000;
+
+/**
+ * Has the reviewer agent (`reviewer.agent`, else the removal agent) audit the diff of all repos.
+ * The reviewer must not edit the worktrees.
+ */
+async function reviewChanges(options: {
+  configContext: ConfigContext;
+  repos: ScaffoldResult['repos'];
+  workspacePath: string;
+  branchName: string;
+  flagKey: string;
+  keepBranch: 'enabled' | 'disabled';
+  keepVariant?: string;
+  logger: Logger;
+}): Promise<DiffReview> {
+  const { configContext, repos, workspacePath, branchName, flagKey, keepBranch, keepVariant, logger } =
+    options;
+  const { reposDir, configPath, config } = configContext;
+  const reviewer = resolveAgentRuntime({ ...config, agent: config.reviewer?.agent ?? config.agent });
+  if (!reviewer.review) {
+    throw new Error(`Agent "${reviewer.kind}" cannot review diffs`);
+  }
+
+  const sections: string[] = [];
+  for (const repo of repos) {
+    const diff = await stageAndDiff(repo.worktreePath);
+    if (diff.trim()) sections.push(`# Repository: ${repo.name}\n${diff}`);
+  }
+  let diff = sections.join('\n\n');
+  if (diff.length > MAX_REVIEW_DIFF_CHARS) {
+    diff = `${diff.slice(0, MAX_REVIEW_DIFF_CHARS)}\n… (diff truncated, read the worktrees for the rest)`;
+  }
+  const before = await workspaceDiff(repos);
+
+  logger.log(`Launching reviewer (${reviewer.kind})...`);
+  const verdict = await reviewer.review({
+    workspacePath,
+    branchName,
+    prompt: generateReviewPrompt({
+      flagKey,
+      keepBranch,
+      keepVariant,
+      keySearch: repos.map((repo) => getRepoSearch(config, repo.name)),
+      diff,
+    }),
+    reposDir,
+    configPath,
+    logger,
+  });
+
+  if ((await workspaceDiff(repos)) !== before) {
+    throw new Error('The reviewer modified the worktrees');
+  }
+
+  logger.log(`Review verdict: ${verdict.verdict} - ${verdict.summary}`);
+  for (const reason of verdict.reasons) {
+    logger.log(`  - ${reason}`);
+  }
+  return { ...verdict, reviewer: reviewer.kind };
+}
+
 /**
  * Main entry point for the removal agent
  * Operates on a directory containing bye-bye-flag-config.json and one or more git repos
@@ -99,10 +288,12 @@ export async function removeFlag(options: RemoveFlagOptions): Promise<RemovalRes
   const {
     flagKey,
     keepBranch,
+    keepVariant,
     dryRun,
     keepWorktree,
     configContext,
     flagCreatedBy,
+    flagLastEvaluatedAt,
     logger = consoleLogger,
   } = options;
   const { reposDir, configPath, config } = configContext;
@@ -111,6 +302,8 @@ export async function removeFlag(options: RemoveFlagOptions): Promise<RemovalRes
   let resolvedAgentKind = agentRuntime.kind;
   let agentSessionId: string | undefined;
   let agentResumeCommand: string | undefined;
+  let codeReferences = options.codeReferences ?? null;
+  let baseReferences = codeReferences; // The scope guard's reference map, before the codemod runs
 
   // Check prerequisites first
   logger.log('Checking prerequisites...');
@@ -126,7 +319,7 @@ export async function removeFlag(options: RemoveFlagOptions): Promise<RemovalRes
   logger.log('Prerequisites OK');
 
   logger.log(`${'='.repeat(60)}`);
-  logger.log(`Removing flag: ${flagKey} (keep: ${keepBranch})`);
+  logger.log(`Removing flag: ${flagKey} (keep: ${keepVariant ? `variant ${keepVariant}` : keepBranch})`);
   logger.log(`Repos directory: ${reposDir}`);
   logger.log(`${'='.repeat(60)}`);
 
@@ -166,8 +359,10 @@ export async function removeFlag(options: RemoveFlagOptions): Promise<RemovalRes
 
     // Check if flag exists in any repo BEFORE scaffolding (saves time if flag not found)
     logger.log(`Checking if flag "${flagKey}" exists in codebase...`);
-    const flagExists = await flagExistsInCodebase(reposDir, flagKey, config);
-    if (!flagExists) {
+    // null means the search failed: assume the flag might exist and let the agent check
+    codeReferences = await findFlagReferencesInCodebase(reposDir, flagKey, config);
+    baseReferences = codeReferences;
+    if (codeReferences?.length === 0) {
       logger.log(`Flag "${flagKey}" not found in any repository. Safe to remove from feature flag system.`);
       return {
         status: 'success',
@@ -182,6 +377,7 @@ export async function removeFlag(options: RemoveFlagOptions): Promise<RemovalRes
 
   let scaffoldResult: ScaffoldResult | null = null;
   let repoResults: RepoResult[] | undefined = undefined;
+  let guardTripped = false;
 
   try {
     // Setup worktrees for all repos
@@ -206,27 +402,83 @@ export async function removeFlag(options: RemoveFlagOptions): Promise<RemovalRes
 
     // Read context from workspace (copied from reposDir)
     const globalContext = await readContextFiles(scaffoldResult.workspacePath);
+    const repoContext = await readRepoContext(scaffoldResult.repos, config);
 
-    const prompt = await generatePrompt({
-      flagKey,
-      keepBranch,
-      globalContext,
-    });
+    if (codeReferences && codeReferences.length > 0) {
+      logger.log(`Known code references (${codeReferences.length}):`);
+      for (const reference of codeReferences) {
+        logger.log(`  ${reference.repo}/${reference.file}:${reference.line} (${reference.variant})`);
+      }
+    }
 
-    logger.log(`Launching agent (${resolvedAgentKind}) to remove the flag...`);
+    // Hybrid mode: the codemod inlines the simple checks, the agent only gets what is left
+    let codemodChanges: CodemodChanges | undefined;
+    if (config.agent?.codemodFirst) {
+      if (keepVariant) {
+        logger.log('Skipping the codemod: it only removes boolean flags');
+      } else {
+        logger.log('Running the codemod...');
+        const codemod = await applyCodemod(
+          scaffoldResult.workspacePath,
+          { flagKey, keepBranch, calls: config.agent.codemod?.calls ?? DEFAULT_CODEMOD_CALLS },
+          logger
+        );
+        logger.log(codemod.summary);
+        if (codemod.filesChanged.length > 0) {
+          codemodChanges = { summary: codemod.summary, filesChanged: codemod.filesChanged };
+          codeReferences = await findWorktreeFlagReferences(scaffoldResult.repos, flagKey, config);
+          logger.log(`References left for the agent: ${codeReferences.length}`);
+        }
+      }
+    }
 
-    const invocation = await agentRuntime.invoke({
-      workspacePath: scaffoldResult.workspacePath,
-      branchName,
-      prompt,
-      reposDir,
-      configPath,
-      logger,
-    });
-    resolvedAgentKind = invocation.kind;
-    agentSessionId = invocation.sessionId;
-    agentResumeCommand = invocation.resumeCommand;
-    const agentOutput = invocation.output;
+    let agentOutput: AgentOutput;
+    if (codemodChanges && codeReferences?.length === 0) {
+      // Everything was mechanical: the PR is the codemod's alone
+      logger.log('Nothing left for the agent.');
+      resolvedAgentKind = 'codemod';
+      agentResumeCommand = `cd ${scaffoldResult.workspacePath}`;
+      agentOutput = codemodOutput('success', codemodChanges.summary, codemodChanges.filesChanged);
+      codemodChanges = undefined;
+    } else {
+      // Repo-specific templates apply when all known references are in repos that share one
+      const reposWithWork = codeReferences?.length
+        ? [...new Set(codeReferences.map((reference) => reference.repo))]
+        : scaffoldResult.repos.map((repo) => repo.name);
+      const prompt = await generatePrompt({
+        flagKey,
+        keepBranch,
+        keepVariant,
+        codeReferences: codeReferences ?? undefined,
+        codemodFiles: codemodChanges?.filesChanged,
+        keySearch: scaffoldResult.repos.map((repo) => getRepoSearch(config, repo.name)),
+        repoContext,
+        globalContext,
+        reason: options.flagReason,
+        createdBy: flagCreatedBy,
+        lastModified: options.flagLastModified,
+        metadata: options.flagMetadata,
+        templatePath: resolvePromptTemplate(config, reposDir, reposWithWork),
+      });
+
+      logger.log(`Launching agent (${resolvedAgentKind}) to remove the flag...`);
+
+      const invocation = await agentRuntime.invoke({
+        workspacePath: scaffoldResult.workspacePath,
+        branchName,
+        prompt,
+        flagKey,
+        keepBranch,
+        keepVariant,
+        reposDir,
+        configPath,
+        logger,
+      });
+      resolvedAgentKind = invocation.kind;
+      agentSessionId = invocation.sessionId;
+      agentResumeCommand = invocation.resumeCommand;
+      agentOutput = invocation.output;
+    }
 
     if (agentOutput.status === 'refused') {
       logger.log(`Agent refused: ${agentOutput.summary}`);
@@ -237,17 +489,167 @@ export async function removeFlag(options: RemoveFlagOptions): Promise<RemovalRes
       };
     }
 
+    // Run the repos' own checks instead of trusting the agent's report
+    let verification = await verifyWorkspace(scaffoldResult.repos, config, logger);
+
+    // Hand failing checks back to the agent's session until they pass or its edits stop changing
+    const fixupRounds = config.agent?.fixupRounds ?? CONFIG.fixupRounds;
+    let previousDiff = await workspaceDiff(scaffoldResult.repos);
+    for (let round = 1; round <= fixupRounds; round++) {
+      const failures = listFailures(verification);
+      if (failures.length === 0) break;
+      if (!agentRuntime.resume || !agentSessionId || resolvedAgentKind === 'codemod') {
+        logger.log('Verification failed, but the agent session cannot be resumed for a fix-up round.');
+        break;
+      }
+
+      logger.log(`Fix-up round ${round}/${fixupRounds}: ${failures.length} failing check(s)...`);
+      let fixup: AgentInvocationResult;
+      try {
+        fixup = await agentRuntime.resume({
+          workspacePath: scaffoldResult.workspacePath,
+          sessionId: agentSessionId,
+          prompt: generateFixupPrompt({ flagKey, keepBranch, failures }),
+          reposDir,
+          configPath,
+          logger,
+        });
+      } catch (error) {
+        logger.error(
+          `Fix-up round ${round} failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+        break;
+      }
+      agentSessionId = fixup.sessionId ?? agentSessionId;
+      agentResumeCommand = fixup.resumeCommand;
+
+      if (fixup.output.status === 'refused') {
+        logger.log(`Agent could not fix the failures: ${fixup.output.summary}`);
+      } else {
+        agentOutput = {
+          ...fixup.output,
+          summary: `${agentOutput.summary}\n\nFix-up round ${round}: ${fixup.output.summary}`,
+          filesChanged: [...new Set([...agentOutput.filesChanged, ...fixup.output.filesChanged])],
+        };
+      }
+
+      const diff = await workspaceDiff(scaffoldResult.repos);
+      if (diff === previousDiff) {
+        logger.log('The fix-up round changed nothing; stopping.');
+        break;
+      }
+      previousDiff = diff;
+      verification = await verifyWorkspace(scaffoldResult.repos, config, logger);
+      if (fixup.output.status === 'refused') break;
+    }
+
+    // Edits away from every known reference, or to keys that only contain this one
+    let scope: Record<string, ScopeReport> = {};
+    if (baseReferences) {
+      scope = await checkWorkspaceScope(scaffoldResult.repos, flagKey, baseReferences, config, logger);
+      const blocking = Object.entries(scope).filter(([, report]) => report.mode === 'block');
+      if (blocking.length > 0) {
+        const listed = blocking.flatMap(([repo, report]) =>
+          report.findings.map((finding) => `${repo}/${finding.file}:${finding.line} ${finding.message}`)
+        );
+        return {
+          status: 'refused',
+          refusalReason: `Scope guard: changes unrelated to the flag: ${listed.join('; ')}`,
+          branchName,
+        };
+      }
+
+      const stripping = scaffoldResult.repos.filter((repo) => scope[repo.name]?.mode === 'strip');
+      for (const repo of stripping) {
+        logger.log(`Reverting the unrelated changes in ${repo.name}...`);
+        await stripFindings(repo.worktreePath, scope[repo.name].findings);
+      }
+      if (stripping.length > 0) {
+        verification = await verifyWorkspace(scaffoldResult.repos, config, logger);
+      }
+    } else {
+      logger.log('Skipping the scope guard: the reference search failed');
+    }
+
+    // Hard limits: protected paths and change size
+    const violations: string[] = [];
+    for (const repo of scaffoldResult.repos) {
+      for (const violation of await checkGuards(repo.name, repo.worktreePath, config)) {
+        violations.push(`${repo.name} ${violation}`);
+      }
+    }
+    if (violations.length > 0) {
+      guardTripped = true;
+      logger.log('Guards tripped:');
+      violations.forEach((violation) => logger.log(`  - ${violation}`));
+      return {
+        status: 'refused',
+        refusalReason: `Guard tripped: ${violations.join('; ')}. Worktree kept at ${scaffoldResult.workspacePath}`,
+        branchName,
+      };
+    }
+
+    // Nothing that looks like a credential is committed anywhere: one repo with a secret refuses
+    // the flag before any repo is pushed, so no PR goes out with half of the removal
+    logger.log('Scanning for secrets...');
+    const secrets: string[] = [];
+    for (const repo of scaffoldResult.repos) {
+      for (const finding of await scanStagedChanges(repo.name, repo.worktreePath, config)) {
+        logger.error(`Secret scan: ${repo.name}/${describeSecretFinding(finding)}`);
+        secrets.push(
+          `${finding.rule} in ${repo.name}/${finding.file}${finding.line > 0 ? `:${finding.line}` : ''}`
+        );
+      }
+    }
+    if (secrets.length > 0) {
+      return {
+        status: 'refused',
+        refusalReason: `Secret scan found possible credentials: ${secrets.join('; ')}`,
+        branchName,
+      };
+    }
+
+    // Results cover the codemod's edits as well as the agent's
+    const summary = codemodChanges ? `${codemodChanges.summary} ${agentOutput.summary}` : agentOutput.summary;
+    const filesChanged = [...new Set([...(codemodChanges?.filesChanged ?? []), ...agentOutput.filesChanged])];
+
+    // Second opinion on the diff before anything is pushed
+    let review: DiffReview | undefined;
+    if (config.reviewer) {
+      review = await reviewChanges({
+        configContext,
+        repos: scaffoldResult.repos,
+        workspacePath: scaffoldResult.workspacePath,
+        branchName,
+        flagKey,
+        keepBranch,
+        keepVariant,
+        logger,
+      });
+      if (review.verdict === 'request-changes' && (config.reviewer.onReject ?? 'block') === 'block') {
+        return {
+          status: 'refused',
+          refusalReason: `Reviewer requested changes: ${[review.summary, ...review.reasons].join(' ')}`,
+          branchName,
+        };
+      }
+    }
+
     if (dryRun) {
       logger.log('--- DRY RUN MODE ---');
       logger.log('Agent completed successfully.');
-      logger.log(`Summary: ${agentOutput.summary}`);
-      logger.log(`Files changed: ${agentOutput.filesChanged.join(', ')}`);
+      logger.log(`Summary: ${summary}`);
+      logger.log(`Files changed: ${filesChanged.join(', ')}`);
 
       // Show which repos have changes
       logger.log('Repos with changes:');
       for (const repo of scaffoldResult.repos) {
         const changed = await hasChanges(repo.worktreePath);
         logger.log(`  ${repo.name}: ${changed ? 'HAS CHANGES' : 'no changes'}`);
+        for (const result of verification[repo.name] ?? []) {
+          const outcome = result.exitCode === 0 ? 'passed' : describeFailure(result);
+          logger.log(`    ${result.check}: ${result.command} ${outcome}`);
+        }
         if (changed) {
           const diff = await stageAndDiff(repo.worktreePath);
           logger.log(`--- ${repo.name} DIFF ---`);
@@ -259,8 +661,8 @@ export async function removeFlag(options: RemoveFlagOptions): Promise<RemovalRes
       return {
         status: 'success',
         branchName,
-        summary: agentOutput.summary,
-        filesChanged: agentOutput.filesChanged,
+        summary,
+        filesChanged,
       };
     }
 
@@ -275,7 +677,11 @@ export async function removeFlag(options: RemoveFlagOptions): Promise<RemovalRes
       resolvedAgentKind,
       agentSessionId,
       agentResumeCommand,
-      flagCreatedBy,
+      { createdBy: flagCreatedBy, lastEvaluatedAt: flagLastEvaluatedAt },
+      codemodChanges,
+      verification,
+      review,
+      scope,
       logger
     );
 
@@ -301,8 +707,8 @@ export async function removeFlag(options: RemoveFlagOptions): Promise<RemovalRes
           status: 'failed',
           error: `Failed to create PRs in ${failedResults.length} repo(s): ${failedRepos}`,
           branchName,
-          summary: agentOutput.summary,
-          filesChanged: agentOutput.filesChanged,
+          summary,
+          filesChanged,
           repoResults,
         };
       }
@@ -311,8 +717,8 @@ export async function removeFlag(options: RemoveFlagOptions): Promise<RemovalRes
     return {
       status: 'success',
       branchName,
-      summary: agentOutput.summary,
-      filesChanged: agentOutput.filesChanged,
+      summary,
+      filesChanged,
       repoResults,
     };
   } catch (error) {
@@ -330,12 +736,16 @@ export async function removeFlag(options: RemoveFlagOptions): Promise<RemovalRes
       // - Always keep if --keep-worktree flag is set
       // - Keep after successful PR creation (for resume capability)
       // - Clean up on dry-run (unless --keep-worktree)
+      // - Keep when a guard tripped, to inspect what the agent did
       // - Clean up on error (worktree might be in bad state)
       // Only consider PRs created if repoResults exists and has at least one success
       const prCreated = !dryRun && repoResults && repoResults.some((r) => r.status === 'success');
-      const shouldKeep = keepWorktree || prCreated;
+      const shouldKeep = keepWorktree || prCreated || guardTripped;
 
-      if (shouldKeep) {
+      if (guardTripped) {
+        logger.log(`Worktree kept for inspection at: ${scaffoldResult.workspacePath}`);
+        logger.log('To cleanup manually: rm -rf ' + scaffoldResult.workspacePath);
+      } else if (shouldKeep) {
         logger.log(`Worktree preserved at: ${scaffoldResult.workspacePath}`);
         logger.log('The worktree will be automatically cleaned up when the PR is merged or closed.');
         logger.log('To resume, see the PR description for the resume command.');
@@ -2,6 +2,7 @@ import { spawn } from 'child_process';
 import { parseAgentOutputFromText } from './output.ts';
 import { getShellInit } from './scaffold.ts';
 import { registerChildProcess } from '../process-tracker.ts';
+import { buildSandboxArgs, sandboxEnv, type AgentSandboxSettings } from './sandbox.ts';
 import { type AgentOutput, type Logger, consoleLogger } from '../types.ts';
 
 interface GenericRunResult {
@@ -21,11 +22,12 @@ export interface InvokeAgentOptions {
   promptArg: string;
   timeoutMs: number;
   execution: AgentExecutionContract;
+  sandbox?: AgentSandboxSettings;
   logger?: Logger;
 }
 
-export interface InvokeAgentResult {
-  output: AgentOutput;
+export interface InvokeAgentResult<T = AgentOutput> {
+  output: T;
   sessionId?: string;
   resumeCommand: string;
 }
@@ -87,6 +89,7 @@ async function normalizeAgentOutputWithSameAgent(options: {
   timeoutMs: number;
   workspacePath: string;
   shellInit?: string;
+  sandbox?: AgentSandboxSettings;
   logger: Logger;
   rawOutput: string;
 }): Promise<AgentOutput | null> {
@@ -99,6 +102,7 @@ async function normalizeAgentOutputWithSameAgent(options: {
     timeoutMs,
     workspacePath,
     shellInit,
+    sandbox,
     logger,
     rawOutput,
   } = options;
@@ -116,6 +120,7 @@ async function normalizeAgentOutputWithSameAgent(options: {
     Math.min(timeoutMs, MAX_NORMALIZE_DURATION_MS),
     workspacePath,
     shellInit,
+    sandbox,
     `${kind}:normalize`,
     logger
   );
@@ -133,7 +138,7 @@ async function normalizeAgentOutputWithSameAgent(options: {
   return parseAgentOutputFromText(normalizeResult.stdout);
 }
 
-function runCli(
+async function runCli(
   command: string,
   args: string[],
   prompt: string,
@@ -141,22 +146,28 @@ function runCli(
   timeoutMs: number,
   cwd: string,
   shellInit: string | undefined,
+  sandbox: AgentSandboxSettings | undefined,
   logPrefix: string,
   logger: Logger
 ): Promise<GenericRunResult> {
+  const shellPrefix = shellInit ? `${shellInit} && ` : '';
+  const quotedArgs = args.map((arg) => quoteShellArg(arg)).join(' ');
+  const cmd = quotedArgs.length > 0 ? `${shellPrefix}${command} ${quotedArgs}` : `${shellPrefix}${command}`;
+
+  // With a sandbox, bwrap runs the same shell command with the workspace as the only writable tree
+  const [file, spawnArgs] = sandbox
+    ? ['bwrap', [...(await buildSandboxArgs(sandbox, cwd)), 'bash', '-c', cmd]]
+    : ['bash', ['-c', cmd]];
+
   return new Promise((resolve) => {
     let stdout = '';
     let lineBuffer = '';
     let timedOut = false;
 
-    const shellPrefix = shellInit ? `${shellInit} && ` : '';
-    const quotedArgs = args.map((arg) => quoteShellArg(arg)).join(' ');
-    const cmd = quotedArgs.length > 0 ? `${shellPrefix}${command} ${quotedArgs}` : `${shellPrefix}${command}`;
-
-    const child = spawn('bash', ['-c', cmd], {
+    const child = spawn(file, spawnArgs, {
       cwd,
       stdio: ['pipe', 'pipe', 'pipe'],
-      env: { ...process.env },
+      env: sandbox ? sandboxEnv(process.env, sandbox.env) : { ...process.env },
     });
     registerChildProcess(child);
 
@@ -203,7 +214,10 @@ function runCli(
   });
 }
 
-export async function invokeAgent(options: InvokeAgentOptions): Promise<InvokeAgentResult> {
+/**
+ * Runs the agent CLI and returns its raw output, throwing when it times out or prints nothing
+ */
+async function runAgent(options: InvokeAgentOptions): Promise<{ stdout: string; shellInit?: string }> {
   const {
     kind,
     workspacePath,
@@ -215,6 +229,7 @@ export async function invokeAgent(options: InvokeAgentOptions): Promise<InvokeAg
     promptArg,
     timeoutMs,
     execution,
+    sandbox,
     logger = consoleLogger,
   } = options;
 
@@ -232,6 +247,7 @@ export async function invokeAgent(options: InvokeAgentOptions): Promise<InvokeAg
     timeoutMs,
     workspacePath,
     shellInit,
+    sandbox,
     kind,
     logger
   );
@@ -246,35 +262,64 @@ export async function invokeAgent(options: InvokeAgentOptions): Promise<InvokeAg
     throw new Error(`${kind} produced no output`);
   }
 
-  const parsed = parseAgentOutputFromText(result.stdout);
-  const retryArgs = execution.retryArgs;
+  return { stdout: result.stdout, shellInit };
+}
+
+function toResult<T>(output: T, stdout: string, options: InvokeAgentOptions): InvokeAgentResult<T> {
+  const { execution, command, workspacePath } = options;
+  const sessionId = execution.extractSessionId(stdout);
+  return {
+    output,
+    sessionId,
+    resumeCommand: execution.buildResumeCommand(command, workspacePath, sessionId),
+  };
+}
+
+export async function invokeAgent(options: InvokeAgentOptions): Promise<InvokeAgentResult> {
+  const { kind, command, promptMode, promptArg, timeoutMs, workspacePath, execution, sandbox } = options;
+  const { stdout, shellInit } = await runAgent(options);
+
   const output =
-    parsed ??
+    parseAgentOutputFromText(stdout) ??
     (await normalizeAgentOutputWithSameAgent({
       kind,
       command,
-      args: retryArgs,
+      args: execution.retryArgs,
       promptMode,
       promptArg,
       timeoutMs,
       workspacePath,
       shellInit,
-      logger,
-      rawOutput: result.stdout,
+      sandbox,
+      logger: options.logger ?? consoleLogger,
+      rawOutput: stdout,
     }));
 
   if (!output) {
-    const preview =
-      result.stdout.length > 800 ? result.stdout.slice(0, 800) + '\n… (truncated)' : result.stdout;
-    throw new Error(`Failed to parse ${kind} output as AgentOutput.\n\nOutput preview:\n${preview}`);
+    throw new Error(
+      `Failed to parse ${kind} output as AgentOutput.\n\nOutput preview:\n${previewOutput(stdout)}`
+    );
   }
 
-  const sessionId = execution.extractSessionId(result.stdout);
-  const resumeCommand = execution.buildResumeCommand(command, workspacePath, sessionId);
+  return toResult(output, stdout, options);
+}
 
-  return {
-    output,
-    sessionId,
-    resumeCommand,
-  };
+/**
+ * Runs the agent like `invokeAgent`, for results other than AgentOutput (e.g. a review verdict).
+ * Unparseable output is an error: there is no normalization retry.
+ */
+export async function invokeAgentWithParser<T>(
+  options: InvokeAgentOptions,
+  parseOutput: (text: string) => T | null
+): Promise<InvokeAgentResult<T>> {
+  const { stdout } = await runAgent(options);
+  const output = parseOutput(stdout);
+  if (!output) {
+    throw new Error(`Failed to parse ${options.kind} output.\n\nOutput preview:\n${previewOutput(stdout)}`);
+  }
+  return toResult(output, stdout, options);
+}
+
+function previewOutput(stdout: string): string {
+  return stdout.length > 800 ? stdout.slice(0, 800) + '\n… (truncated)' : stdout;
 }
@@ -1,3 +1,4 @@
+import type { z } from 'zod';
 import { AgentOutputSchema, type AgentOutput } from '../types.ts';
 
 export const RESULT_DELIMITER = '---RESULT---';
@@ -11,19 +12,30 @@ export const RESULT_DELIMITER = '---RESULT---';
  * - A raw JSON object near the end of the text
  */
 export function parseAgentOutputFromText(text: string): AgentOutput | null {
+  return parseResultFromText(text, AgentOutputSchema);
+}
+
+/**
+ * Same as `parseAgentOutputFromText`, for results with another shape (e.g. review verdicts)
+ */
+export function parseResultFromText<T>(text: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T | null {
   // Prefer explicit delimiter if present (most reliable).
   if (text.includes(RESULT_DELIMITER)) {
     try {
-      return parseDelimitedAgentOutput(text);
+      return parseDelimitedResult(text, schema);
     } catch {
       // Fall through to heuristic parsing
     }
   }
 
-  return tryParseAgentOutputFromText(text);
+  return tryParseResultFromText(text, schema);
 }
 
 export function parseDelimitedAgentOutput(text: string): AgentOutput {
+  return parseDelimitedResult(text, AgentOutputSchema);
+}
+
+function parseDelimitedResult<T>(text: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T {
   const delimiterIndex = text.lastIndexOf(RESULT_DELIMITER);
 
   if (delimiterIndex === -1) {
@@ -40,10 +52,14 @@ export function parseDelimitedAgentOutput(text: string): AgentOutput {
   }
 
   const parsed = JSON.parse(jsonString);
-  return AgentOutputSchema.parse(parsed);
+  return schema.parse(parsed);
 }
 
 export function tryParseAgentOutputFromText(text: string): AgentOutput | null {
+  return tryParseResultFromText(text, AgentOutputSchema);
+}
+
+function tryParseResultFromText<T>(text: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T | null {
   // 1) Prefer JSON fenced blocks if present (common)
   const codeBlocks = [...text.matchAll(/```(?:json)?\s*([\s\S]*?)```/g)];
   for (const match of codeBlocks.reverse()) {
@@ -51,7 +67,7 @@ export function tryParseAgentOutputFromText(text: string): AgentOutput | null {
     if (!candidate) continue;
     try {
       const parsed = JSON.parse(candidate);
-      return AgentOutputSchema.parse(parsed);
+      return schema.parse(parsed);
     } catch {
       // Keep trying
     }
@@ -67,7 +83,7 @@ export function tryParseAgentOutputFromText(text: string): AgentOutput | null {
     const candidate = text.slice(start, lastClose + 1).trim();
     try {
       const parsed = JSON.parse(candidate);
-      return AgentOutputSchema.parse(parsed);
+      return schema.parse(parsed);
     } catch {
       // Try an earlier '{'
     }
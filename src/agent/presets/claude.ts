@@ -14,5 +14,6 @@ export const claudePreset: AgentPreset = {
     withSessionId:
       'cd {{workspacePath}} && {{command}} --dangerously-skip-permissions --resume {{sessionId}}',
     withoutSessionId: 'cd {{workspacePath}} && {{command}} --dangerously-skip-permissions --resume',
+    args: ['--dangerously-skip-permissions', '--resume', '{{sessionId}}'],
   },
 };
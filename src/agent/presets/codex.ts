@@ -9,5 +9,6 @@ export const codexPreset: AgentPreset = {
   resume: {
     withSessionId: 'cd {{workspacePath}} && {{command}} resume --full-auto {{sessionId}}',
     withoutSessionId: 'cd {{workspacePath}} && {{command}} resume --full-auto --all',
+    args: ['exec', '--skip-git-repo-check', '--full-auto', 'resume', '{{sessionId}}', '-'],
   },
 };
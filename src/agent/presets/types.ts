@@ -1,6 +1,7 @@
 export interface AgentResumeTemplates {
   withoutSessionId: string;
   withSessionId?: string;
+  args?: string[]; // Non-interactive run in an existing session ({{sessionId}}), used for fix-up rounds
 }
 
 export interface SessionIdConfig {
@@ -1,14 +1,68 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import { compileSearchPattern, getKeyVariants, toCamelCase, toScreamingSnake } from '../flag-key.ts';
+import type { CodeReference, KeySearchSettings, KeyVariant, VerificationResult } from '../types.ts';
+import type { ConfigContext } from '../config-context.ts';
+import type { ByeByeFlagConfig } from './scaffold.ts';
+import { describeFailure } from './verify.ts';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
+const BUILTIN_PROMPTS_DIR = path.join(__dirname, '../../prompts');
+export const DEFAULT_PROMPT_TEMPLATE = path.join(BUILTIN_PROMPTS_DIR, 'remove-flag.md');
+
+// Placeholders a prompt template may use, besides `{{metadata.<field>}}` and `{{> partial}}`
+const PROMPT_VARIABLES = [
+  'flagKey',
+  'keepBranch',
+  'removeBranch',
+  'keepVariant',
+  'flagKeyCamel',
+  'flagKeyScreaming',
+  'keyVariations',
+  'variantDetails',
+  'variantInstructions',
+  'knownReferences',
+  'references',
+  'codemodChanges',
+  'repoContext',
+  'reason',
+  'createdBy',
+  'lastModified',
+];
+
+// Keep the prompt short for flags used all over the codebase
+const MAX_LISTED_REFERENCES = 50;
+
+// Markdown files in this directory of each repo are added to the prompt automatically
+const REPO_CONTEXT_DIR = '.bye-bye-flag';
+
+const VARIANT_LABELS: Record<KeyVariant, string> = {
+  kebab: 'Exact match',
+  camelCase: 'camelCase',
+  SCREAMING_SNAKE: 'SCREAMING_SNAKE_CASE',
+  snake_case: 'snake_case',
+  PascalCase: 'PascalCase',
+  dotted: 'Dotted',
+  prefixed: 'Prefixed constant',
+  pattern: 'Pattern',
+};
+
 interface PromptParams {
   flagKey: string;
   keepBranch: 'enabled' | 'disabled';
+  keepVariant?: string;
+  codeReferences?: CodeReference[];
+  codemodFiles?: string[]; // Files the codemod already rewrote (hybrid mode); codeReferences are its leftovers
+  keySearch?: Array<KeySearchSettings | undefined>; // Search settings of each repo in the workspace
   repoContext?: string;
   globalContext?: string;
+  reason?: string; // Why the fetcher picked the flag
+  createdBy?: string;
+  lastModified?: string;
+  metadata?: Record<string, unknown>; // Fetcher metadata, exposed as {{metadata.<field>}}
+  templatePath?: string; // Defaults to the built-in prompts/remove-flag.md
 }
 
 /**
@@ -35,18 +89,215 @@ export async function readContextFiles(dirPath: string): Promise<string> {
   }
 }
 
+/**
+ * Reads each repo's context files and puts them under a heading per repo.
+ * Files come from `repos.<name>.contextFiles` (relative to the repo root), then `.bye-bye-flag/*.md`.
+ * Throws if a configured file is missing.
+ */
+export async function readRepoContext(
+  repos: Array<{ name: string; worktreePath: string }>,
+  config: ByeByeFlagConfig
+): Promise<string> {
+  const sections: string[] = [];
+  for (const repo of repos) {
+    const files = (config.repos[repo.name]?.contextFiles ?? []).map((file) =>
+      path.resolve(repo.worktreePath, file)
+    );
+
+    const autoDir = path.join(repo.worktreePath, REPO_CONTEXT_DIR);
+    const entries = await fs.readdir(autoDir, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const file = path.join(autoDir, entry.name);
+      if (entry.isFile() && entry.name.endsWith('.md') && !files.includes(file)) files.push(file);
+    }
+
+    const contents: string[] = [];
+    for (const file of files) {
+      try {
+        contents.push((await fs.readFile(file, 'utf-8')).trim());
+      } catch {
+        throw new Error(
+          `Context file not found for repo "${repo.name}": ${path.relative(repo.worktreePath, file)}`
+        );
+      }
+    }
+    if (contents.length > 0) {
+      sections.push(`#### ${repo.name}\n\n${contents.join('\n\n')}`);
+    }
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * Picks the template for a flag: a `repos.<name>.promptTemplate` override when every repo with
+ * work shares it, otherwise `prompt.template`, otherwise the built-in template
+ */
+export function resolvePromptTemplate(
+  config: ByeByeFlagConfig,
+  reposDir: string,
+  repoNames: string[]
+): string {
+  const overrides = new Set(repoNames.map((name) => config.repos[name]?.promptTemplate));
+  const [override] = overrides;
+  const template = overrides.size === 1 && override ? override : config.prompt?.template;
+  return template ? path.resolve(reposDir, template) : DEFAULT_PROMPT_TEMPLATE;
+}
+
+/**
+ * Reads a template and inlines its `{{> partial}}` includes. Partials are looked up next to the
+ * including file, then in the built-in prompts (so `{{> remove-flag}}` extends the default).
+ * Throws on unknown placeholders, missing partials and include cycles.
+ */
+export async function loadPromptTemplate(templatePath: string, includedFrom: string[] = []): Promise<string> {
+  if (includedFrom.includes(templatePath)) {
+    throw new Error(`Prompt partial cycle: ${[...includedFrom, templatePath].join(' → ')}`);
+  }
+  const template = await fs.readFile(templatePath, 'utf-8').catch(() => {
+    throw new Error(`Prompt template not found: ${templatePath}`);
+  });
+
+  const stack = [...includedFrom, templatePath];
+  const parts: string[] = [];
+  let lastIndex = 0;
+  for (const match of template.matchAll(/\{\{(.*?)\}\}/g)) {
+    const partial = /^>\s*([\w./-]+)\s*$/.exec(match[1]);
+    if (!partial) {
+      if (!isPromptVariable(match[1])) {
+        throw new Error(
+          `Unknown placeholder ${match[0]} in prompt template ${templatePath}. ` +
+            `Available: ${PROMPT_VARIABLES.map((name) => `{{${name}}}`).join(', ')}, {{metadata.<field>}}, {{> partial}}`
+        );
+      }
+      continue;
+    }
+
+    const fileName = path.extname(partial[1]) ? partial[1] : `${partial[1]}.md`;
+    const candidates = [
+      path.resolve(path.dirname(templatePath), fileName),
+      path.join(BUILTIN_PROMPTS_DIR, fileName),
+    ];
+    let partialPath: string | undefined;
+    for (const candidate of candidates) {
+      if (
+        await fs.stat(candidate).then(
+          (stat) => stat.isFile(),
+          () => false
+        )
+      ) {
+        partialPath = candidate;
+        break;
+      }
+    }
+    if (!partialPath) {
+      throw new Error(
+        `Prompt partial "${partial[1]}" included from ${templatePath} not found (looked in ${candidates.join(', ')})`
+      );
+    }
+
+    parts.push(
+      template.slice(lastIndex, match.index),
+      (await loadPromptTemplate(partialPath, stack)).trimEnd()
+    );
+    lastIndex = match.index + match[0].length;
+  }
+  parts.push(template.slice(lastIndex));
+  return parts.join('');
+}
+
+function isPromptVariable(name: string): boolean {
+  return PROMPT_VARIABLES.includes(name) || /^metadata\.\w+$/.test(name);
+}
+
+/**
+ * Loads every configured prompt template, returning an error message for each invalid one
+ */
+export async function validatePromptTemplates(configContext: ConfigContext): Promise<string[]> {
+  const { reposDir, config } = configContext;
+  const templates = new Set(
+    [config.prompt?.template, ...Object.values(config.repos).map((repo) => repo.promptTemplate)]
+      .filter((template): template is string => template !== undefined)
+      .map((template) => path.resolve(reposDir, template))
+  );
+
+  const errors: string[] = [];
+  for (const template of templates) {
+    try {
+      await loadPromptTemplate(template);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+  return errors;
+}
+
 /**
  * Generates the prompt for the configured agent to remove a feature flag
  */
 export async function generatePrompt(params: PromptParams): Promise<string> {
-  const { flagKey, keepBranch, repoContext, globalContext } = params;
+  const { flagKey, keepBranch, keepVariant, codeReferences, keySearch, repoContext, globalContext } = params;
   const removeBranch = keepBranch === 'enabled' ? 'disabled' : 'enabled';
 
-  // Generate variations of the flag key for searching
-  const flagKeyCamel = toCamelCase(flagKey);
-  const flagKeyScreaming = toScreamingSnake(flagKey);
+  const variables: Record<string, string> = {
+    flagKey,
+    keepBranch,
+    removeBranch,
+    keepVariant: keepVariant ?? '',
+    // Variations of the flag key for searching
+    flagKeyCamel: toCamelCase(flagKey),
+    flagKeyScreaming: toScreamingSnake(flagKey),
+    keyVariations: formatKeyVariations(flagKey, keySearch ?? [undefined]),
+    reason: params.reason ?? '',
+    createdBy: params.createdBy ?? '',
+    lastModified: params.lastModified ?? '',
+  };
+  for (const [field, value] of Object.entries(params.metadata ?? {})) {
+    if (value === undefined || value === null) continue;
+    variables[`metadata.${field}`] = Array.isArray(value)
+      ? value.join(', ')
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value);
+  }
 
-  const promptTemplate = await fs.readFile(path.join(__dirname, '../../prompts/remove-flag.md'), 'utf-8');
+  // Multivariate flags: tell the agent which variant to collapse comparisons down to
+  variables.variantDetails = '';
+  variables.variantInstructions = '';
+  if (keepVariant) {
+    variables.variantDetails = `- **Keep variant:** \`${keepVariant}\` (every user gets this variant; see Step 2.5)`;
+    const variantTemplate = await loadPromptTemplate(path.join(BUILTIN_PROMPTS_DIR, 'keep-variant.md'));
+    variables.variantInstructions = renderTemplate(variantTemplate, variables).trimEnd();
+  }
+
+  // Give the agent the hits we already know about so it doesn't start from scratch
+  variables.references = '';
+  variables.knownReferences = '';
+  if (codeReferences && codeReferences.length > 0) {
+    const listed = codeReferences
+      .slice(0, MAX_LISTED_REFERENCES)
+      .map((r) => `- \`${r.repo}/${r.file}:${r.line}\` (${r.variant})`);
+    const more = codeReferences.length - listed.length;
+    if (more > 0) listed.push(`- …and ${more} more`);
+    variables.references = listed.join('\n');
+    variables.knownReferences = [
+      params.codemodFiles?.length
+        ? `These references are left after the codemod (file:line, matched spelling). Handle them, and still search for usages the search cannot see (e.g. keys built from constants):`
+        : `A search of each repo's base branch found these references (file:line, matched spelling). Start with them, but still search for usages the search cannot see (e.g. keys built from constants):`,
+      '',
+      variables.references,
+    ].join('\n');
+  }
+
+  // Hybrid mode: the simple checks are already gone, the agent only handles the leftovers
+  variables.codemodChanges = '';
+  if (params.codemodFiles?.length) {
+    variables.codemodChanges = [
+      `A codemod already inlined the simple flag checks in these files. Keep those edits, and clean up any dead code they left behind:`,
+      '',
+      ...params.codemodFiles.map((file) => `- \`${file}\``),
+      '',
+      `If none of the references left is a real usage of the flag, make no further changes and report success.`,
+    ].join('\n');
+  }
 
   // Build context section
   let contextSection = '';
@@ -59,23 +310,139 @@ export async function generatePrompt(params: PromptParams): Promise<string> {
   if (!contextSection) {
     contextSection = 'No additional context provided. Read the README and explore the codebase.';
   }
+  variables.repoContext = contextSection;
+
+  const promptTemplate = await loadPromptTemplate(params.templatePath ?? DEFAULT_PROMPT_TEMPLATE);
+  return renderTemplate(promptTemplate, variables);
+}
+
+/**
+ * Follow-up prompt for a resumed session: the checks bye-bye-flag ran that failed
+ */
+export function generateFixupPrompt(params: {
+  flagKey: string;
+  keepBranch: 'enabled' | 'disabled';
+  failures: Array<{ repo: string; result: VerificationResult }>;
+}): string {
+  const { flagKey, keepBranch, failures } = params;
+  const sections = failures.map(({ repo, result }) => {
+    return [
+      `### ${repo}: ${result.check}`,
+      '',
+      `\`${result.command}\` ${describeFailure(result)}:`,
+      '',
+      '```',
+      result.output || '(no output)',
+      '```',
+    ].join('\n');
+  });
+
+  return `# Verification Failed
 
-  // Simple template replacement
-  const prompt = promptTemplate
-    .replace(/\{\{flagKey\}\}/g, flagKey)
-    .replace(/\{\{keepBranch\}\}/g, keepBranch)
-    .replace(/\{\{removeBranch\}\}/g, removeBranch)
-    .replace(/\{\{flagKeyCamel\}\}/g, flagKeyCamel)
-    .replace(/\{\{flagKeyScreaming\}\}/g, flagKeyScreaming)
-    .replace(/\{\{repoContext\}\}/g, contextSection);
+bye-bye-flag ran the repositories' checks on your changes for removing \`${flagKey}\` (keeping the \`${keepBranch}\` branch). These failed:
 
-  return prompt;
+${sections.join('\n\n')}
+
+Fix the failures your changes caused, then run the failing commands again to confirm.
+
+- Do not bring back the flag or the \`${keepBranch === 'enabled' ? 'disabled' : 'enabled'}\` code path to make a check pass
+- If a failure is unrelated to your changes (it also fails on the base branch), leave it and say so in your summary
+- Only change what the fix needs
+
+Then print \`---RESULT---\` on its own line, followed by the same JSON object as before, describing this round.
+`;
 }
 
-function toCamelCase(str: string): string {
-  return str.replace(/[-_.]+([a-z])/g, (_, letter) => letter.toUpperCase());
+/**
+ * Prompt for the reviewer agent: audit the removal diff before a PR is opened
+ */
+export function generateReviewPrompt(params: {
+  flagKey: string;
+  keepBranch: 'enabled' | 'disabled';
+  keepVariant?: string;
+  keySearch?: Array<KeySearchSettings | undefined>;
+  diff: string;
+}): string {
+  const { flagKey, keepBranch, keepVariant, diff } = params;
+  const removeBranch = keepBranch === 'enabled' ? 'disabled' : 'enabled';
+  const kept = keepVariant
+    ? `every comparison collapsed to variant \`${keepVariant}\``
+    : `the \`${keepBranch}\` code path kept and the \`${removeBranch}\` code path removed`;
+
+  return `# Review a Feature Flag Removal
+
+Another agent removed the feature flag \`${flagKey}\` from the repositories in your current working directory, with ${kept}. Review its diff below before a pull request is opened. Do not modify any files.
+
+The flag may appear in code under these spellings:
+
+${formatKeyVariations(flagKey, params.keySearch ?? [undefined])}
+
+Request changes if any of these is true:
+
+1. **Wrong branch:** the ${keepVariant ? 'code for other variants' : `\`${removeBranch}\` path`} was kept, or behavior changed in a way it wouldn't if the flag had always been ${keepVariant ? `\`${keepVariant}\`` : `\`${keepBranch}\``}
+2. **Other flags:** a flag whose key merely contains \`${flagKey}\` was touched (e.g. \`${flagKey}-v2\`, \`new-${flagKey}\`)
+3. **Unrelated changes:** edits that are not part of removing this flag or the dead code it leaves behind
+4. **Broken code:** removed code that is still used elsewhere, or leftovers that no longer make sense
+
+You may read files and run \`git\` to check how the changed code is used.
+
+## Diff
+
+\`\`\`diff
+${diff}
+\`\`\`
+
+## Output
+
+Print \`---RESULT---\` on its own line, followed by a single JSON object (no markdown fences):
+
+{
+"verdict": "approve" | "request-changes",
+"summary": "one or two sentences on the diff",
+"reasons": ["one entry per problem, with file and line where possible (empty when approving)"]
+}
+`;
 }
 
-function toScreamingSnake(str: string): string {
-  return str.replace(/[-_.]+/g, '_').toUpperCase();
+/**
+ * Lists every spelling and pattern the repos are searched with, once each
+ */
+function formatKeyVariations(flagKey: string, keySearch: Array<KeySearchSettings | undefined>): string {
+  const lines: string[] = [];
+  const seen = new Set<string>();
+  for (const search of keySearch) {
+    for (const { variant, value } of getKeyVariants(flagKey, search)) {
+      if (seen.has(value)) continue;
+      seen.add(value);
+      lines.push(
+        variant === 'kebab'
+          ? `- ${VARIANT_LABELS[variant]}: \`"${value}"\``
+          : `- ${VARIANT_LABELS[variant]}: \`${value}\``
+      );
+    }
+  }
+  for (const search of keySearch) {
+    for (const template of search?.patterns ?? []) {
+      const { source } = compileSearchPattern(template, flagKey).regex;
+      if (seen.has(source)) continue;
+      seen.add(source);
+      lines.push(`- ${VARIANT_LABELS.pattern}: \`/${source}/\``);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Substitutes placeholders in one pass (inserted text is never re-scanned). A placeholder on its
+ * own line that renders empty is dropped together with its line and the blank line after it.
+ */
+function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(
+    /^\{\{([\w.]+)\}\}\n(\n)?|\{\{([\w.]+)\}\}/gm,
+    (_match, lineName: string | undefined, blankLine: string | undefined, inlineName: string | undefined) => {
+      if (inlineName !== undefined) return variables[inlineName] ?? '';
+      const content = variables[lineName!] ?? '';
+      return content ? `${content}\n${blankLine ?? ''}` : '';
+    }
+  );
 }
@@ -0,0 +1,85 @@
+/**
+ * Agent sandbox (`agent.sandbox`)
+ *
+ * Runs the agent CLI under bubblewrap (Linux). The filesystem is read-only apart from the
+ * workspace and `writablePaths`, and credential directories such as ~/.ssh are hidden. The
+ * network is cut unless `network` is set, and only allowlisted environment variables get through.
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { AgentConfig } from './scaffold.ts';
+
+export type AgentSandboxSettings = NonNullable<AgentConfig['sandbox']>;
+
+// Enough for a shell and most CLIs. API keys have to be allowlisted with `sandbox.env`.
+export const DEFAULT_SANDBOX_ENV = ['PATH', 'HOME', 'USER', 'LOGNAME', 'SHELL', 'TERM', 'LANG', 'LC_*', 'TZ'];
+
+// Always hidden: SSH keys and the credentials of common CLIs
+export const DEFAULT_HIDDEN_PATHS = [
+  '~/.ssh',
+  '~/.gnupg',
+  '~/.aws',
+  '~/.azure',
+  '~/.config/gcloud',
+  '~/.config/gh',
+  '~/.docker',
+  '~/.kube',
+  '~/.netrc',
+  '~/.npmrc',
+  '~/.pypirc',
+  '~/.git-credentials',
+];
+
+/**
+ * The environment passed into the sandbox: allowlisted names only (`PREFIX_*` matches a prefix)
+ */
+export function sandboxEnv(env: NodeJS.ProcessEnv, allowlist: string[] = []): NodeJS.ProcessEnv {
+  const patterns = [...DEFAULT_SANDBOX_ENV, ...allowlist];
+  const allowed = (name: string) =>
+    patterns.some((pattern) =>
+      pattern.endsWith('*') ? name.startsWith(pattern.slice(0, -1)) : name === pattern
+    );
+  // /tmp is the sandbox's own tmpfs; a TMPDIR elsewhere would be read-only
+  return { ...Object.fromEntries(Object.entries(env).filter(([name]) => allowed(name))), TMPDIR: '/tmp' };
+}
+
+/**
+ * bwrap arguments up to the command: `bwrap ...args bash -c <cmd>`
+ */
+export async function buildSandboxArgs(
+  sandbox: AgentSandboxSettings,
+  workspacePath: string,
+  home: string = os.homedir()
+): Promise<string[]> {
+  const args = ['--die-with-parent', '--unshare-all'];
+  if (sandbox.network) args.push('--share-net');
+  args.push('--ro-bind', '/', '/', '--dev', '/dev', '--proc', '/proc', '--tmpfs', '/tmp');
+
+  for (const hiddenPath of [...DEFAULT_HIDDEN_PATHS, ...(sandbox.hiddenPaths ?? [])]) {
+    const target = expandHome(hiddenPath, home);
+    const stat = await fs.stat(target).catch(() => null);
+    if (!stat) continue;
+    args.push(...(stat.isDirectory() ? ['--tmpfs', target] : ['--ro-bind', '/dev/null', target]));
+  }
+
+  // Missing paths are skipped: bwrap cannot bind what does not exist
+  for (const writablePath of sandbox.writablePaths ?? []) {
+    const target = expandHome(writablePath, home);
+    const exists = await fs.stat(target).then(
+      () => true,
+      () => false
+    );
+    if (exists) args.push('--bind', target, target);
+  }
+
+  args.push('--bind', workspacePath, workspacePath, '--chdir', workspacePath, '--');
+  return args;
+}
+
+function expandHome(value: string, home: string): string {
+  if (value === '~') return home;
+  if (value.startsWith('~/')) return path.join(home, value.slice(2));
+  return path.resolve(value);
+}
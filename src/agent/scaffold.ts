@@ -3,7 +3,8 @@ import * as path from 'path';
 import * as fs from 'fs/promises';
 import { z } from 'zod';
 import { CONFIG } from '../config.ts';
-import { consoleLogger, type Logger } from '../types.ts';
+import { compileSearchPattern, KEY_TRANSFORMS } from '../flag-key.ts';
+import { consoleLogger, type KeySearchSettings, type Logger } from '../types.ts';
 import { getAgentPreset } from './presets/index.ts';
 
 export interface ScaffoldOptions {
@@ -437,12 +438,75 @@ export async function cleanupMultiRepoWorktrees(result: ScaffoldResult): Promise
   }
 }
 
+const RepoSearchSchema = z
+  .object({
+    variants: z.array(z.enum(KEY_TRANSFORMS)).optional(),
+    constantPrefixes: z
+      .array(
+        z.string().regex(/^[A-Za-z_$][A-Za-z0-9_$]*$/, {
+          message: 'Constant prefixes must be identifiers, e.g. FLAG_ or FF_.',
+        })
+      )
+      .optional(),
+    patterns: z
+      .array(
+        z.string().superRefine((pattern, ctx) => {
+          try {
+            compileSearchPattern(pattern, 'flag-key');
+          } catch (error) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: error instanceof Error ? error.message : String(error),
+            });
+          }
+        })
+      )
+      .optional(),
+  })
+  .strict();
+
+const VerifySchema = z
+  .object({
+    typecheck: z.array(z.string().min(1)).optional(),
+    lint: z.array(z.string().min(1)).optional(),
+    test: z.array(z.string().min(1)).optional(),
+  })
+  .strict();
+
+const ScopeGuardSchema = z
+  .object({
+    mode: z.enum(['warn', 'block', 'strip']).optional(), // What to do with unrelated hunks (default warn)
+    window: z.number().int().nonnegative().optional(), // Lines around a flag reference that count as related (default 25)
+  })
+  .strict();
+
+const GuardsSchema = z
+  .object({
+    protectedPaths: z.array(z.string().min(1)).optional(), // Globs the removal must not touch, e.g. `**/pnpm-lock.yaml`
+    maxChangedFiles: z.number().int().positive().optional(),
+    maxDiffLines: z.number().int().positive().optional(), // Added plus deleted lines
+  })
+  .strict();
+
+const SecretScanSchema = z
+  .object({
+    ignorePaths: z.array(z.string().min(1)).optional(), // Globs whose high-entropy strings are not reported, e.g. fixtures
+  })
+  .strict();
+
 const RepoEntrySchema = z
   .object({
     shellInit: z.string().optional(), // Override shell init for this repo
     baseBranch: z.string().min(1).optional(), // Base branch for worktree creation + code search
     mainSetup: z.array(z.string()).optional(), // Setup commands for main repo (run once by orchestrator)
     setup: z.array(z.string()).optional(), // Setup commands for worktrees (run per flag)
+    search: RepoSearchSchema.optional(), // Extra flag-key spellings and patterns for code search
+    contextFiles: z.array(z.string().min(1)).optional(), // Markdown files (relative to the repo) added to the prompt
+    promptTemplate: z.string().min(1).optional(), // Prompt template override for flags only in this repo
+    verify: VerifySchema.optional(), // Commands run after the agent, reported in the PR instead of the agent's claims
+    scopeGuard: ScopeGuardSchema.optional(), // Checks the diff for edits unrelated to the flag
+    guards: GuardsSchema.optional(), // Limits on what the removal may change; tripping one refuses the flag
+    secretScan: SecretScanSchema.optional(), // Exceptions for the secret scan before pushing
   })
   .strict();
 
@@ -451,6 +515,31 @@ const OrchestratorSettingsSchema = z
     concurrency: z.number().int().positive().optional(),
     maxPrs: z.number().int().nonnegative().optional(),
     logDir: z.string().optional(),
+    deleteUnreferencedFlags: z
+      .object({
+        graceDays: z.number().int().nonnegative().optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+const DiscoverSettingsSchema = z
+  .object({
+    patterns: z
+      .array(
+        z.string().refine((pattern) => pattern.split('{key}').length === 2, {
+          message: 'Discover patterns must contain the {key} placeholder exactly once.',
+        })
+      )
+      .min(1)
+      .optional(),
+  })
+  .strict();
+
+const PromptSettingsSchema = z
+  .object({
+    template: z.string().min(1).optional(), // Path relative to the config directory
   })
   .strict();
 
@@ -466,6 +555,11 @@ const RepoDefaultsSchema = z
     baseBranch: z.string().min(1).optional(),
     mainSetup: z.array(z.string()).optional(),
     setup: z.array(z.string()).optional(),
+    search: RepoSearchSchema.optional(),
+    verify: VerifySchema.optional(),
+    scopeGuard: ScopeGuardSchema.optional(),
+    guards: GuardsSchema.optional(),
+    secretScan: SecretScanSchema.optional(),
   })
   .strict();
 
@@ -479,6 +573,57 @@ const FetcherConfigSchema = z.discriminatedUnion('type', [
         .transform((ids) => ids.map(String)),
       staleDays: z.number().int().positive().optional(),
       host: z.string().optional(),
+      evaluationActivity: z.enum(['exclude', 'sort-last']).optional(),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal('launchdarkly'),
+      projectKey: z.string().min(1),
+      environments: z.array(z.string().min(1)).min(1),
+      staleDays: z.number().int().positive().optional(),
+      host: z.string().optional(),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal('unleash'),
+      host: z.string().min(1),
+      projectIds: z.array(z.string().min(1)).min(1).default(['default']),
+      environments: z.array(z.string().min(1)).min(1).optional(),
+      staleDays: z.number().int().positive().optional(),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal('growthbook'),
+      apiHost: z.string().optional(),
+      environments: z.array(z.string().min(1)).min(1),
+      staleDays: z.number().int().positive().optional(),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal('flagsmith'),
+      projectId: z.union([z.string().min(1), z.number().int().positive()]).transform(String),
+      environments: z.array(z.string().min(1)).min(1),
+      staleDays: z.number().int().positive().optional(),
+      host: z.string().optional(),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal('flagd'),
+      files: z.array(z.string().min(1)).min(1),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal('command'),
+      command: z.string().min(1),
+      args: z.array(z.string()).optional(),
+      passEnv: z.array(z.string().min(1)).optional(),
+      timeoutMinutes: z.number().positive().optional(),
     })
     .strict(),
   z.object({ type: z.literal('manual') }).strict(),
@@ -489,6 +634,7 @@ const AgentConfigSchema = z
     /**
      * Agent identifier.
      * Built-in preset values include "claude" and "codex".
+     * "codemod" runs the built-in TypeScript codemod instead of an agent CLI.
      */
     type: z.string().min(1),
     /**
@@ -523,14 +669,50 @@ const AgentConfigSchema = z
      * If the regex has a capture group, group 1 is used.
      */
     sessionIdRegex: z.string().min(1).optional(),
+    /**
+     * Settings for the built-in codemod runtime (type "codemod").
+     * `calls` lists the flag-check functions whose branches are inlined.
+     */
+    codemod: z
+      .object({
+        calls: z.array(z.string().min(1)).min(1).optional(),
+      })
+      .strict()
+      .optional(),
+    /**
+     * Run the codemod before the agent. The agent is only invoked when references remain,
+     * and its prompt lists just those.
+     */
+    codemodFirst: z.boolean().optional(),
     /**
      * Resume command templates for PR metadata.
      * withoutSessionId is required either here or via the built-in preset.
+     * `args` continue a session non-interactively (`{{sessionId}}` placeholder) for fix-up rounds.
      */
     resume: z
       .object({
         withSessionId: z.string().min(1).optional(),
         withoutSessionId: z.string().min(1).optional(),
+        args: z.array(z.string()).min(1).optional(),
+      })
+      .strict()
+      .optional(),
+    /**
+     * Times the agent's session is resumed to fix failing `verify` checks (default 2, 0 disables).
+     */
+    fixupRounds: z.number().int().nonnegative().optional(),
+    /**
+     * Runs the agent CLI in a bubblewrap sandbox (Linux): only the workspace and `writablePaths`
+     * are writable, credential directories are hidden, and only allowlisted env vars are passed.
+     * `network` defaults to false; agents that call a hosted model need it.
+     */
+    sandbox: z
+      .object({
+        type: z.literal('bubblewrap'),
+        network: z.boolean().optional(),
+        env: z.array(z.string().min(1)).optional(), // Extra env var names, `PREFIX_*` for prefixes
+        writablePaths: z.array(z.string().min(1)).optional(), // e.g. the agent's session dir, `~/.claude`
+        hiddenPaths: z.array(z.string().min(1)).optional(), // Hidden in addition to ~/.ssh, ~/.aws, ...
       })
       .strict()
       .optional(),
@@ -545,6 +727,18 @@ const AgentConfigSchema = z
       });
     }
 
+    // The codemod runs in-process: no CLI to prompt or resume
+    if (cfg.type === 'codemod') {
+      if (cfg.codemodFirst) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['codemodFirst'],
+          message: 'codemodFirst needs an agent to hand leftovers to; type is already "codemod".',
+        });
+      }
+      return;
+    }
+
     const preset = getAgentPreset(cfg.type);
     const resolvedWithoutSessionResume = cfg.resume?.withoutSessionId ?? preset?.resume.withoutSessionId;
     if (!resolvedWithoutSessionResume) {
@@ -557,17 +751,45 @@ const AgentConfigSchema = z
     }
   });
 
+const ReviewerSettingsSchema = z
+  .object({
+    agent: AgentConfigSchema.optional(), // Defaults to the removal agent
+    onReject: z.enum(['block', 'annotate']).optional(), // block (default): no PR; annotate: verdict in the PR body
+  })
+  .strict();
+
 const ByeByeFlagConfigSchema = z
   .object({
-    fetcher: FetcherConfigSchema.optional(),
+    fetcher: z
+      .union([
+        FetcherConfigSchema,
+        z
+          .array(FetcherConfigSchema)
+          .min(1)
+          .refine((fetchers) => fetchers.every((f) => f.type !== 'manual'), {
+            message: 'The manual fetcher cannot be combined with other fetchers.',
+          }),
+      ])
+      .optional(),
     agent: AgentConfigSchema.optional(),
+    reviewer: ReviewerSettingsSchema.optional(),
     worktrees: WorktreesSchema.optional(),
     orchestrator: OrchestratorSettingsSchema.optional(),
+    discover: DiscoverSettingsSchema.optional(),
+    prompt: PromptSettingsSchema.optional(),
     repoDefaults: RepoDefaultsSchema.optional(),
     repos: z.record(RepoEntrySchema),
   })
   .strict()
   .superRefine((cfg, ctx) => {
+    if (cfg.reviewer && (cfg.reviewer.agent ?? cfg.agent)?.type === 'codemod') {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['reviewer', 'agent'],
+        message: 'The reviewer needs an agent CLI. Set reviewer.agent when agent.type is "codemod".',
+      });
+    }
+
     for (const [repoName, repoCfg] of Object.entries(cfg.repos)) {
       const hasSetup = repoCfg.setup !== undefined || cfg.repoDefaults?.setup !== undefined;
       if (!hasSetup) {
@@ -593,6 +815,10 @@ const ByeByeFlagConfigSchema = z
 
 export type ByeByeFlagConfig = z.infer<typeof ByeByeFlagConfigSchema>;
 export type AgentConfig = z.infer<typeof AgentConfigSchema>;
+export type RepoVerifySettings = z.infer<typeof VerifySchema>;
+export type RepoScopeGuardSettings = z.infer<typeof ScopeGuardSchema>;
+export type RepoGuardSettings = z.infer<typeof GuardsSchema>;
+export type RepoSecretScanSettings = z.infer<typeof SecretScanSchema>;
 
 export function getRepoBaseBranch(config: ByeByeFlagConfig, repoName: string): string {
   const repoConfig = config.repos[repoName];
@@ -608,6 +834,41 @@ export function getRepoBaseBranch(config: ByeByeFlagConfig, repoName: string): s
   return baseBranch;
 }
 
+/**
+ * Code search settings for a repo: `repos.<name>.search`, falling back to `repoDefaults.search`
+ */
+export function getRepoSearch(config: ByeByeFlagConfig, repoName: string): KeySearchSettings | undefined {
+  return config.repos[repoName]?.search ?? config.repoDefaults?.search;
+}
+
+/**
+ * Gets the verify commands for a repo, falling back to repoDefaults
+ */
+export function getRepoVerify(config: ByeByeFlagConfig, repoName: string): RepoVerifySettings | undefined {
+  return config.repos[repoName]?.verify ?? config.repoDefaults?.verify;
+}
+
+/**
+ * Gets the scope guard settings for a repo, falling back to repoDefaults
+ */
+export function getRepoScopeGuard(config: ByeByeFlagConfig, repoName: string): RepoScopeGuardSettings {
+  return config.repos[repoName]?.scopeGuard ?? config.repoDefaults?.scopeGuard ?? {};
+}
+
+/**
+ * Gets the change guards for a repo, falling back to repoDefaults
+ */
+export function getRepoGuards(config: ByeByeFlagConfig, repoName: string): RepoGuardSettings | undefined {
+  return config.repos[repoName]?.guards ?? config.repoDefaults?.guards;
+}
+
+/**
+ * Gets the secret scan settings for a repo, falling back to repoDefaults
+ */
+export function getRepoSecretScan(config: ByeByeFlagConfig, repoName: string): RepoSecretScanSettings {
+  return config.repos[repoName]?.secretScan ?? config.repoDefaults?.secretScan ?? {};
+}
+
 let cachedConfig: ByeByeFlagConfig | null = null;
 let cachedConfigPath: string | null = null;
 
@@ -0,0 +1,259 @@
+/**
+ * Scope guard
+ *
+ * Checks that the diff stays on the flag before it is committed. It reports:
+ * - Hunks far from every reference the base-branch search found (the reference map). Deleted
+ *   files (code that became unused) and hunks that only touch imports are fine.
+ * - Renamed identifiers and removed flag keys that merely contain the key (`cmd-k` for `cmd`)
+ *
+ * Per repo (`scopeGuard.mode`), findings are listed in the PR, block the removal, or are
+ * stripped from the diff by reverting their hunks.
+ */
+
+import { execa } from 'execa';
+import { escapeRegExp, getKeyVariants, KEY_TRANSFORMS } from '../flag-key.ts';
+import type { CodeReference, KeySearchSettings } from '../types.ts';
+import type { RepoScopeGuardSettings } from './scaffold.ts';
+
+export type ScopeGuardMode = NonNullable<RepoScopeGuardSettings['mode']>;
+
+// Lines around a flag reference where changes count as part of the removal
+export const DEFAULT_SCOPE_WINDOW = 25;
+
+// Renames are looked for line by line; skip the comparison in huge hunks
+const MAX_RENAME_CHECK_LINES = 400;
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  removed: string[];
+  added: string[];
+  text: string; // `@@` line and body, as in the patch
+}
+
+export interface DiffFile {
+  path: string;
+  status: 'added' | 'deleted' | 'modified';
+  header: string; // `diff --git` up to the first hunk
+  hunks: DiffHunk[];
+}
+
+export interface ScopeFinding {
+  file: string;
+  line: number; // In the changed file (the original file for pure deletions)
+  message: string;
+  header: string; // Patch header of the file and the hunk, to revert it
+  hunk: string;
+}
+
+export interface ScopeReport {
+  mode: ScopeGuardMode;
+  findings: ScopeFinding[];
+}
+
+/**
+ * Parses `git diff -U0 --no-renames` output into files and hunks
+ */
+export function parseDiff(diff: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let file: DiffFile | undefined;
+  let hunk: DiffHunk | undefined;
+  const headerLines: string[] = [];
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      const match = /^diff --git a\/(.*) b\/(.*)$/.exec(line);
+      file = { path: match?.[2] ?? '', status: 'modified', header: '', hunks: [] };
+      files.push(file);
+      hunk = undefined;
+      headerLines.length = 0;
+      headerLines.push(line);
+      continue;
+    }
+    if (!file) continue;
+
+    const range = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(line);
+    if (range) {
+      if (!hunk) file.header = headerLines.join('\n');
+      hunk = {
+        oldStart: Number(range[1]),
+        oldLines: range[2] === undefined ? 1 : Number(range[2]),
+        newStart: Number(range[3]),
+        newLines: range[4] === undefined ? 1 : Number(range[4]),
+        removed: [],
+        added: [],
+        text: line,
+      };
+      file.hunks.push(hunk);
+      continue;
+    }
+
+    if (!hunk) {
+      headerLines.push(line);
+      if (line.startsWith('new file mode')) file.status = 'added';
+      if (line.startsWith('deleted file mode')) file.status = 'deleted';
+      continue;
+    }
+    if (line.startsWith('-')) hunk.removed.push(line.slice(1));
+    else if (line.startsWith('+')) hunk.added.push(line.slice(1));
+    else if (!line.startsWith('\\')) continue;
+    hunk.text += `\n${line}`;
+  }
+
+  return files;
+}
+
+/**
+ * Finds the hunks of one repo's diff that do not belong to the flag removal
+ */
+export function checkScope(params: {
+  diff: string;
+  flagKey: string;
+  references: Array<Pick<CodeReference, 'file' | 'line'>>; // This repo's base-branch references
+  search?: KeySearchSettings;
+  window?: number;
+}): ScopeFinding[] {
+  const { diff, flagKey, references, window = DEFAULT_SCOPE_WINDOW } = params;
+  // Every spelling, not only the searched ones: a renamed `isCmdKEnabled` is PascalCase
+  const spellings = getKeyVariants(flagKey, { ...params.search, variants: [...KEY_TRANSFORMS] }).map(
+    (variant) => variant.value
+  );
+
+  const findings: ScopeFinding[] = [];
+  for (const file of parseDiff(diff)) {
+    if (file.status === 'deleted') continue;
+    const referenceLines = references.filter((r) => r.file === file.path).map((r) => r.line);
+
+    for (const hunk of file.hunks) {
+      const finding = (message: string) =>
+        findings.push({
+          file: file.path,
+          line: hunk.newLines > 0 ? hunk.newStart : hunk.oldStart,
+          message,
+          header: file.header,
+          hunk: hunk.text,
+        });
+
+      for (const message of findSubstringEdits(hunk, flagKey, spellings)) {
+        finding(message);
+      }
+
+      if (onlyTouchesImports(hunk)) continue;
+      const distance = distanceToReference(hunk, referenceLines);
+      if (distance === undefined) {
+        finding(
+          file.status === 'added'
+            ? 'new file without a flag reference'
+            : `${changedLines(hunk)} changed line(s) in a file without a flag reference`
+        );
+      } else if (distance > window) {
+        finding(`${changedLines(hunk)} changed line(s), ${distance} lines from the nearest flag reference`);
+      }
+    }
+  }
+  return findings;
+}
+
+/**
+ * Stages everything and returns the diff in the shape `checkScope` expects
+ */
+export async function getScopeDiff(worktreePath: string): Promise<string> {
+  await execa('git', ['add', '-A'], { cwd: worktreePath });
+  const { stdout } = await execa('git', ['diff', '--staged', '-U0', '--no-renames', '--no-color'], {
+    cwd: worktreePath,
+  });
+  return stdout;
+}
+
+/**
+ * Reverts the hunks of the given findings in the worktree and the index
+ */
+export async function stripFindings(worktreePath: string, findings: ScopeFinding[]): Promise<void> {
+  // One patch per file with its hunks in order, so git can track the line offsets. A hunk can
+  // have several findings.
+  const files = new Map<string, Set<string>>();
+  for (const finding of findings) {
+    const hunks = files.get(finding.header) ?? new Set<string>();
+    hunks.add(finding.hunk);
+    files.set(finding.header, hunks);
+  }
+  const patch = [...files].map(([header, hunks]) => `${header}\n${[...hunks].join('\n')}\n`).join('');
+  await execa('git', ['apply', '-R', '--unidiff-zero', '--index', '-'], { cwd: worktreePath, input: patch });
+}
+
+function changedLines(hunk: DiffHunk): number {
+  return Math.max(hunk.removed.length, hunk.added.length);
+}
+
+/**
+ * Lines between the hunk (original file) and the closest reference, undefined without references
+ */
+function distanceToReference(hunk: DiffHunk, referenceLines: number[]): number | undefined {
+  if (referenceLines.length === 0) return undefined;
+  const start = hunk.oldLines > 0 ? hunk.oldStart : hunk.oldStart + 1;
+  const end = hunk.oldLines > 0 ? hunk.oldStart + hunk.oldLines - 1 : hunk.oldStart;
+  return Math.min(...referenceLines.map((line) => Math.max(0, start - line, line - end)));
+}
+
+const IMPORT_LINE =
+  /^\s*(import\b.*|export\b.*\bfrom\b.*|}\s*from\s.*|[\w$]+(\s+as\s+[\w$]+)?,?|(const|let|var)\s.*=\s*require\(.*|)$/;
+
+function onlyTouchesImports(hunk: DiffHunk): boolean {
+  return [...hunk.removed, ...hunk.added].every((line) => IMPORT_LINE.test(line));
+}
+
+function tokenize(line: string): string[] {
+  return line.match(/[\w$-]+|[^\s\w$-]/g) ?? [];
+}
+
+/**
+ * Identifiers renamed and flag keys removed that contain the key without being it
+ */
+function findSubstringEdits(hunk: DiffHunk, flagKey: string, spellings: string[]): string[] {
+  const containsKey = (token: string) =>
+    !spellings.includes(token) && spellings.some((spelling) => token.includes(spelling));
+  const messages: string[] = [];
+
+  // A line changed only where a token contains the key: `cmdK` → `commandK`
+  if (hunk.removed.length + hunk.added.length <= MAX_RENAME_CHECK_LINES) {
+    const addedTokens = hunk.added.map(tokenize);
+    for (const removedLine of hunk.removed) {
+      const removed = tokenize(removedLine);
+      const positions = removed.flatMap((token, index) => (containsKey(token) ? [index] : []));
+      if (positions.length === 0) continue;
+
+      const renamed = addedTokens.find(
+        (added) =>
+          added.length === removed.length &&
+          added.every((token, index) => token === removed[index] || positions.includes(index)) &&
+          positions.some((index) => added[index] !== removed[index])
+      );
+      if (!renamed) continue;
+      for (const index of positions) {
+        if (renamed[index] !== removed[index]) {
+          messages.push(
+            `renames \`${removed[index]}\` to \`${renamed[index]}\`, which only contains the key`
+          );
+        }
+      }
+    }
+  }
+
+  // Flag keys that contain this one as a segment: `cmd-k`, `new-cmd`
+  const keyLike = new RegExp(`^(?:[\\w.-]*[-_.])?${escapeRegExp(flagKey)}(?:[-_.][\\w.-]*)?$`);
+  const quoted = (lines: string[]) =>
+    lines.flatMap((line) =>
+      [...line.matchAll(/(['"`])([\w.-]+)\1/g)]
+        .map((match) => match[2])
+        .filter((value) => value !== flagKey && keyLike.test(value))
+    );
+  const added = quoted(hunk.added);
+  for (const value of new Set(quoted(hunk.removed))) {
+    if (!added.includes(value))
+      messages.push(`removes \`${value}\`, a different flag key that contains the key`);
+  }
+
+  return messages;
+}
@@ -0,0 +1,158 @@
+/**
+ * Secret scan
+ *
+ * The agent runs with full permissions and the orchestrator's environment, so a diff can carry
+ * credentials (`.env` contents, tokens copied from the shell). Before any repo is committed and
+ * pushed, the lines each diff adds are checked for common token formats and high-entropy
+ * strings. Any match refuses the flag.
+ *
+ * `secretScan.ignorePaths` exempts files from the high-entropy check only: a known token format
+ * is reported wherever it appears.
+ */
+
+import { execa } from 'execa';
+import { parseDiff } from './scope-guard.ts';
+import { getRepoSecretScan, type ByeByeFlagConfig } from './scaffold.ts';
+
+export interface SecretRule {
+  id: string;
+  description: string;
+  pattern: RegExp;
+}
+
+export const SECRET_RULES: SecretRule[] = [
+  { id: 'aws-access-key', description: 'AWS access key ID', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  {
+    id: 'aws-secret-key',
+    description: 'AWS secret access key',
+    pattern: /aws_?secret_?access_?key\W{1,4}[A-Za-z0-9/+]{40}\b/i,
+  },
+  { id: 'github-token', description: 'GitHub token', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/ },
+  { id: 'github-pat', description: 'GitHub fine-grained token', pattern: /\bgithub_pat_[A-Za-z0-9_]{60,}\b/ },
+  {
+    id: 'posthog-personal-key',
+    description: 'PostHog personal API key',
+    pattern: /\bphx_[A-Za-z0-9]{30,}\b/,
+  },
+  {
+    id: 'private-key',
+    description: 'Private key',
+    pattern: /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY( BLOCK)?-----/,
+  },
+];
+
+// Random-looking tokens: long enough, mixed case and digits, and close to uniformly distributed.
+// Hex hashes (commit SHAs, checksums) top out at 4 bits per character and stay below the limit.
+const CANDIDATE_TOKEN = /[A-Za-z0-9+/_=-]{32,}/g;
+const MIN_ENTROPY_BITS = 4.5;
+
+// Subresource integrity hashes, as in lockfiles (`integrity: sha512-...`)
+const INTEGRITY_HASH = /^sha(?:1|256|384|512)-/;
+
+export interface SecretFinding {
+  rule: string;
+  file: string;
+  line: number; // 0 for rules on the file itself
+  preview: string; // The start of the match only, never the whole secret
+}
+
+/**
+ * Finds secrets in the lines a diff adds (`git diff -U0` output). Files in `entropyExempt` are
+ * only checked for known token formats.
+ */
+export function scanDiff(diff: string, entropyExempt: Set<string> = new Set()): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+
+  for (const file of parseDiff(diff)) {
+    if (file.status === 'deleted') continue;
+    if (file.status === 'added' && isDotenvFile(file.path)) {
+      findings.push({ rule: 'dotenv-file', file: file.path, line: 0, preview: '' });
+    }
+
+    for (const hunk of file.hunks) {
+      // Without context lines, a hunk's added lines are consecutive from newStart
+      hunk.added.forEach((text, index) => {
+        const line = hunk.newStart + index;
+        let matched = false;
+        for (const rule of SECRET_RULES) {
+          const match = rule.pattern.exec(text);
+          if (!match) continue;
+          findings.push({ rule: rule.id, file: file.path, line, preview: redact(match[0]) });
+          matched = true;
+        }
+        // The entropy check is a fallback for lines no known format explains
+        if (matched || entropyExempt.has(file.path)) return;
+        for (const token of text.match(CANDIDATE_TOKEN) ?? []) {
+          if (looksRandom(token)) {
+            findings.push({ rule: 'high-entropy-string', file: file.path, line, preview: redact(token) });
+          }
+        }
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Stages a repo's changes and scans them, honouring its `secretScan.ignorePaths`
+ */
+export async function scanStagedChanges(
+  repoName: string,
+  worktreePath: string,
+  config: ByeByeFlagConfig
+): Promise<SecretFinding[]> {
+  await execa('git', ['add', '-A'], { cwd: worktreePath });
+  const { stdout } = await execa('git', ['diff', '--staged', '-U0', '--no-renames', '--no-color'], {
+    cwd: worktreePath,
+  });
+
+  const entropyExempt = new Set<string>();
+  const { ignorePaths } = getRepoSecretScan(config, repoName);
+  if (ignorePaths && ignorePaths.length > 0) {
+    const pathspecs = ignorePaths.map((pattern) => `:(glob)${pattern}`);
+    const { stdout: ignored } = await execa(
+      'git',
+      ['diff', '--staged', '--name-only', '-z', '--no-renames', '--', ...pathspecs],
+      { cwd: worktreePath }
+    );
+    ignored
+      .split('\0')
+      .filter(Boolean)
+      .forEach((file) => entropyExempt.add(file));
+  }
+
+  return scanDiff(stdout, entropyExempt);
+}
+
+/**
+ * "github-token (GitHub token) in src/config.ts:12: ghp_a1…"
+ */
+export function describeSecretFinding(finding: SecretFinding): string {
+  const location = finding.line > 0 ? `${finding.file}:${finding.line}` : finding.file;
+  const rule = SECRET_RULES.find((r) => r.id === finding.rule);
+  const label = rule ? `${finding.rule} (${rule.description})` : finding.rule;
+  return `${label} in ${location}${finding.preview ? `: ${finding.preview}` : ''}`;
+}
+
+function isDotenvFile(filePath: string): boolean {
+  const name = filePath.split('/').pop() ?? '';
+  return /^\.env(\..+)?$/.test(name) && !/\.(example|sample|template|dist)$/.test(name);
+}
+
+function looksRandom(token: string): boolean {
+  if (INTEGRITY_HASH.test(token)) return false;
+  if (!/[a-z]/.test(token) || !/[A-Z]/.test(token) || !/[0-9]/.test(token)) return false;
+  const counts = new Map<string, number>();
+  for (const char of token) counts.set(char, (counts.get(char) ?? 0) + 1);
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / token.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy >= MIN_ENTROPY_BITS;
+}
+
+function redact(value: string): string {
+  return `${value.slice(0, 6)}…`;
+}
@@ -0,0 +1,87 @@
+/**
+ * Verification
+ *
+ * Runs each repo's `verify` commands (typecheck, lint, test) in its worktree once the agent is
+ * done. The PR reports these exit codes instead of what the agent says about its own work.
+ *
+ * Commands must not change the PR: files they write outside .gitignore are discarded afterwards.
+ */
+
+import { execa } from 'execa';
+import { CONFIG } from '../config.ts';
+import { consoleLogger, type Logger, type VerificationResult, type VerifyCheck } from '../types.ts';
+import { getRepoVerify, type ByeByeFlagConfig } from './scaffold.ts';
+
+// Order the checks run in: cheap and most telling first
+export const VERIFY_CHECKS: VerifyCheck[] = ['typecheck', 'lint', 'test'];
+
+// Test runners print the summary last, so the end of the output is kept
+const MAX_OUTPUT_CHARS = 4000;
+
+/**
+ * Runs the verify commands configured for a repo. Returns no results when none are configured.
+ * Within a check, commands run in order and stop at the first failure.
+ */
+export async function runVerification(
+  repoName: string,
+  worktreePath: string,
+  config: ByeByeFlagConfig,
+  logger: Logger = consoleLogger
+): Promise<VerificationResult[]> {
+  const verify = getRepoVerify(config, repoName);
+  if (!verify) return [];
+
+  const shellInitCmd = config.repos[repoName]?.shellInit ?? config.repoDefaults?.shellInit;
+  const shellInit = shellInitCmd ? `${shellInitCmd} && ` : '';
+
+  // Stage the agent's changes so anything the commands write afterwards can be told apart
+  await execa('git', ['add', '-A'], { cwd: worktreePath });
+
+  const results: VerificationResult[] = [];
+  try {
+    for (const check of VERIFY_CHECKS) {
+      for (const command of verify[check] ?? []) {
+        logger.log(`  [${repoName}] ${check}: ${command}`);
+        const result = await execa('bash', ['-c', `${shellInit}${command}`], {
+          cwd: worktreePath,
+          all: true,
+          reject: false,
+          timeout: CONFIG.verifyCommandTimeoutMs,
+        });
+        const verification: VerificationResult = {
+          check,
+          command,
+          exitCode: result.exitCode,
+          timedOut: result.timedOut,
+          output: clipOutput(result.all ?? ''),
+        };
+        results.push(verification);
+
+        if (verification.exitCode !== 0) {
+          logger.log(`  [${repoName}] ${check} failed: ${describeFailure(verification)}`);
+          break;
+        }
+      }
+    }
+  } finally {
+    await execa('git', ['checkout', '--', '.'], { cwd: worktreePath, reject: false });
+    await execa('git', ['clean', '-fdq'], { cwd: worktreePath, reject: false });
+  }
+
+  return results;
+}
+
+/**
+ * "exited with code 1" / "timed out after 20 minutes"
+ */
+export function describeFailure(result: VerificationResult): string {
+  if (result.timedOut) return `timed out after ${CONFIG.verifyCommandTimeoutMs / 60_000} minutes`;
+  if (result.exitCode === undefined) return 'was killed';
+  return `exited with code ${result.exitCode}`;
+}
+
+function clipOutput(output: string): string {
+  const trimmed = output.trim();
+  if (trimmed.length <= MAX_OUTPUT_CHARS) return trimmed;
+  return `… (truncated)\n${trimmed.slice(-MAX_OUTPUT_CHARS)}`;
+}
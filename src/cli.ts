@@ -14,6 +14,8 @@ if (major < 24) {
 import { parseArgs } from 'node:util';
 import { removeFlag } from './agent/index.ts';
 import { run, runWithInput } from './orchestrator/index.ts';
+import { finalize } from './finalize/index.ts';
+import { discover } from './discover/index.ts';
 import { setupSignalHandlers } from './process-tracker.ts';
 import { loadEnvFileIfExists } from './env.ts';
 import { loadConfigContext, requireFetcher } from './config-context.ts';
@@ -30,6 +32,8 @@ Usage:
 Commands:
   run       Fetch stale flags and process them (main command)
   remove    Remove a single flag (for testing/manual use)
+  finalize  Archive flags in the provider once their removal PRs have merged
+  discover  Find flag keys used in code and compare them with the provider's flags
 
 Options for 'run':
   --target-repos=<path>  Path to target repos root (required)
@@ -39,10 +43,18 @@ Options for 'run':
 Options for 'remove':
   --flag=<key>           The feature flag key to remove (required)
   --keep=<branch>        Which branch to keep: "enabled" or "disabled" (required)
+  --keep-variant=<key>   Multivariate flags: the variant to keep (requires --keep=enabled)
   --target-repos=<path>  Path to target repos root (required)
   --dry-run              Show diff without creating PR
   --keep-worktree        Keep worktree after completion
 
+Options for 'finalize':
+  --target-repos=<path>  Path to target repos root (required)
+  --dry-run              Show what would be archived without changing the provider
+
+Options for 'discover':
+  --target-repos=<path>  Path to target repos root (required)
+
 Configuration (bye-bye-flag-config.json):
   {
     "fetcher": {
@@ -87,6 +99,12 @@ Examples:
 
   # Remove a single flag manually
   bye-bye-flag remove --target-repos=/path/to/target-repos --flag=my-flag --keep=enabled
+
+  # Archive flags whose removal PRs have merged (preview first)
+  bye-bye-flag finalize --target-repos=/path/to/target-repos --dry-run
+
+  # List flags used in code but missing from the provider (and the other way round)
+  bye-bye-flag discover --target-repos=/path/to/target-repos
 `;
 
 async function main() {
@@ -110,6 +128,7 @@ async function main() {
       // remove command
       flag: { type: 'string' },
       keep: { type: 'string' },
+      'keep-variant': { type: 'string' },
       'keep-worktree': { type: 'boolean', default: false },
     },
   });
@@ -150,7 +169,8 @@ async function main() {
     }
 
     const fetcher = requireFetcher(configContext.config);
-    if (fetcher.type === 'manual') {
+    const fetchers = Array.isArray(fetcher) ? fetcher : [fetcher];
+    if (fetchers.some((f) => f.type === 'manual')) {
       console.error('Error: Fetcher type is "manual" but no --input file provided');
       process.exit(1);
     }
@@ -174,6 +194,11 @@ async function main() {
       process.exit(1);
     }
 
+    if (values['keep-variant'] && values.keep !== 'enabled') {
+      console.error('Error: --keep-variant requires --keep=enabled');
+      process.exit(1);
+    }
+
     let configContext: Awaited<ReturnType<typeof loadConfigContext>>;
     try {
       configContext = await loadConfigContext(targetReposArg);
@@ -187,6 +212,7 @@ async function main() {
     const result = await removeFlag({
       flagKey: values.flag,
       keepBranch: values.keep,
+      keepVariant: values['keep-variant'],
       configContext,
       dryRun: values['dry-run'],
       keepWorktree: values['keep-worktree'],
@@ -196,6 +222,44 @@ async function main() {
     console.log(JSON.stringify(result, null, 2));
 
     process.exit(result.status === 'success' ? 0 : 1);
+  } else if (command === 'finalize') {
+    let configContext: Awaited<ReturnType<typeof loadConfigContext>>;
+    let fetcher: ReturnType<typeof requireFetcher>;
+    try {
+      configContext = await loadConfigContext(targetReposArg);
+      fetcher = requireFetcher(configContext.config);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error: ${message}`);
+      console.log(helpText);
+      process.exit(1);
+    }
+
+    const summary = await finalize({
+      configContext,
+      fetcher,
+      dryRun: values['dry-run'],
+    });
+
+    process.exit(summary.results.some((r) => r.status === 'failed') ? 1 : 0);
+  } else if (command === 'discover') {
+    let configContext: Awaited<ReturnType<typeof loadConfigContext>>;
+    try {
+      configContext = await loadConfigContext(targetReposArg);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error: ${message}`);
+      console.log(helpText);
+      process.exit(1);
+    }
+
+    // Without a provider fetcher, discover only lists the keys found in code
+    const { fetcher } = configContext.config;
+    await discover({
+      configContext,
+      fetcher: fetcher && !Array.isArray(fetcher) && fetcher.type === 'manual' ? undefined : fetcher,
+    });
+    process.exit(0);
   } else {
     console.error(`Unknown command: ${command}`);
     console.log(helpText);
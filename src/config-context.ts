@@ -1,10 +1,11 @@
 import * as path from 'path';
 import { CONFIG_FILENAME, readConfig, type ByeByeFlagConfig } from './agent/scaffold.ts';
-import type { FetcherConfig } from './fetchers/types.ts';
+import type { CompositeFetcherConfig, FetcherConfig } from './fetchers/types.ts';
 
 const DEFAULT_CONCURRENCY = 3;
 const DEFAULT_MAX_PRS = 10;
 const DEFAULT_LOG_DIR = './bye-bye-flag-logs';
+const DEFAULT_UNREFERENCED_GRACE_DAYS = 14;
 export const DEFAULT_CONFIG_FILENAME = CONFIG_FILENAME;
 
 export interface ConfigContext {
@@ -17,6 +18,7 @@ export interface RuntimeSettings {
   concurrency: number;
   maxPrs: number;
   logDir: string;
+  deleteUnreferencedFlags?: { graceDays: number }; // Unset = never archive unreferenced flags
 }
 
 export function resolveConfigLocation(targetReposDir: string): { reposDir: string; configPath: string } {
@@ -38,13 +40,18 @@ export function getRuntimeSettings(config: ByeByeFlagConfig): RuntimeSettings {
     concurrency: config.orchestrator?.concurrency ?? DEFAULT_CONCURRENCY,
     maxPrs: config.orchestrator?.maxPrs ?? DEFAULT_MAX_PRS,
     logDir: config.orchestrator?.logDir ?? DEFAULT_LOG_DIR,
+    deleteUnreferencedFlags: config.orchestrator?.deleteUnreferencedFlags
+      ? {
+          graceDays: config.orchestrator.deleteUnreferencedFlags.graceDays ?? DEFAULT_UNREFERENCED_GRACE_DAYS,
+        }
+      : undefined,
   };
 }
 
-export function requireFetcher(config: ByeByeFlagConfig): FetcherConfig {
+export function requireFetcher(config: ByeByeFlagConfig): FetcherConfig | CompositeFetcherConfig {
   if (!config.fetcher) {
     throw new Error(
-      'Missing "fetcher" config in bye-bye-flag-config.json. Add fetcher.type and (for PostHog) fetcher.projectIds, or use --input.'
+      'Missing "fetcher" config in bye-bye-flag-config.json. Add fetcher.type and its provider settings (e.g. fetcher.projectIds for PostHog), or use --input.'
     );
   }
   return config.fetcher;
@@ -7,6 +7,11 @@ export const CONFIG = {
   // Agent settings
   // Default timeout for a single agent run. Can be overridden via bye-bye-flag-config.json.
   agentTimeoutMs: 60 * 60 * 1000, // 60 minutes
+  // Fix-up rounds after failing verify commands. Can be overridden via bye-bye-flag-config.json.
+  fixupRounds: 2,
+
+  // Timeout for each repos.<name>.verify command
+  verifyCommandTimeoutMs: 20 * 60 * 1000, // 20 minutes
 
   // Branch naming
   branchPrefix: 'remove-flag/',
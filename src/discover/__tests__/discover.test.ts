@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { execa } from 'execa';
+import { compilePattern, crossReference, DEFAULT_DISCOVER_PATTERNS, scanRepo } from '../index.ts';
+
+describe('compilePattern', () => {
+  it('extracts quoted keys from calls matching the template', () => {
+    const { regex } = compilePattern('isFeatureEnabled({key})');
+    const line = `if (isFeatureEnabled( "new-checkout" ) && myIsFeatureEnabled('other') && isFeatureEnabled(key)) {`;
+
+    expect([...line.matchAll(regex)].map((match) => match[2])).toEqual(['new-checkout']);
+  });
+
+  it('rejects templates without exactly one {key}', () => {
+    expect(() => compilePattern('isFeatureEnabled()')).toThrow('must contain {key} exactly once');
+  });
+});
+
+describe('scanRepo', () => {
+  let repoDir: string;
+
+  beforeEach(async () => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bye-bye-flag-discover-'));
+    fs.mkdirSync(path.join(repoDir, 'src'));
+    fs.writeFileSync(
+      path.join(repoDir, 'src', 'checkout.tsx'),
+      [
+        `const enabled = useFeatureFlagEnabled('new-checkout');`,
+        `const variant = useFeatureFlagVariantKey(\`pricing-test\`);`,
+        `if (posthog.isFeatureEnabled("new-checkout")) {}`,
+      ].join('\n')
+    );
+    fs.writeFileSync(path.join(repoDir, 'src', 'server.ts'), `flags.enabled('server-flag');\n`);
+
+    await execa('git', ['init', '-q'], { cwd: repoDir });
+    await execa('git', ['add', '.'], { cwd: repoDir });
+    await execa(
+      'git',
+      ['-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'code'],
+      { cwd: repoDir }
+    );
+    await execa('git', ['update-ref', 'refs/remotes/origin/main', 'HEAD'], { cwd: repoDir });
+    // Uncommitted changes are not on origin/main and must not be reported
+    fs.writeFileSync(path.join(repoDir, 'src', 'wip.ts'), `isFeatureEnabled('wip-flag');\n`);
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('finds keys at origin/<baseBranch> with their locations', async () => {
+    const found = await scanRepo(repoDir, 'main', DEFAULT_DISCOVER_PATTERNS);
+
+    expect(Object.fromEntries(found)).toEqual({
+      'new-checkout': [
+        { file: 'src/checkout.tsx', line: 1 },
+        { file: 'src/checkout.tsx', line: 3 },
+      ],
+      'pricing-test': [{ file: 'src/checkout.tsx', line: 2 }],
+    });
+  });
+
+  it('supports custom patterns', async () => {
+    const found = await scanRepo(repoDir, 'main', ['flags.enabled({key})']);
+
+    expect([...found.keys()]).toEqual(['server-flag']);
+  });
+});
+
+describe('crossReference', () => {
+  it('reports keys only in code and keys only in the provider', () => {
+    const inCode = [
+      { key: 'deleted-in-provider', references: [{ repo: 'web', file: 'src/a.ts', line: 3 }] },
+      { key: 'live-flag', references: [{ repo: 'api', file: 'src/b.ts', line: 9 }] },
+    ];
+
+    expect(crossReference(inCode, ['live-flag', 'unused-flag', 'another-unused'])).toEqual({
+      missingFromProvider: [inCode[0]],
+      notInCode: ['another-unused', 'unused-flag'],
+    });
+  });
+});
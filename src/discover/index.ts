@@ -0,0 +1,229 @@
+/**
+ * Discover
+ *
+ * Finds flag keys from the code side instead of the provider side: scans every configured
+ * repo at `origin/<baseBranch>` for flag-SDK calls and cross-references the keys against
+ * the provider's full flag list.
+ *
+ * Reports:
+ * - Keys used in code but unknown to the provider (dead branches, e.g. flags deleted in PostHog)
+ * - Keys the provider knows about that no repo references
+ *
+ * Patterns are call templates with a `{key}` placeholder that matches a quoted string
+ * literal, e.g. `isFeatureEnabled({key})` or `useFeatureFlag({key})`.
+ */
+
+import * as path from 'path';
+import { listFlagKeys, type CompositeFetcherConfig, type FetcherConfig } from '../fetchers/index.ts';
+import { getRepoBaseBranch, getRepoSearch } from '../agent/scaffold.ts';
+import type { ConfigContext } from '../config-context.ts';
+import { fetchAllRepos, findFlagReferences, gitGrep } from '../git-utils.ts';
+import { consoleLogger, type Logger } from '../types.ts';
+
+export const DEFAULT_DISCOVER_PATTERNS = [
+  'isFeatureEnabled({key})',
+  'getFeatureFlag({key})',
+  'useFeatureFlag({key})',
+  'useFeatureFlagEnabled({key})',
+  'useFeatureFlagVariantKey({key})',
+];
+
+export interface DiscoverConfig {
+  configContext: ConfigContext;
+  fetcher?: FetcherConfig | CompositeFetcherConfig; // Without a fetcher, only code references are listed
+  logger?: Logger;
+}
+
+export interface FlagReference {
+  repo: string;
+  file: string;
+  line: number;
+}
+
+export interface DiscoveredFlag {
+  key: string;
+  references: FlagReference[];
+}
+
+export interface DiscoverSummary {
+  patterns: string[];
+  inCode: DiscoveredFlag[];
+  missingFromProvider?: DiscoveredFlag[]; // Undefined without a fetcher
+  unreferenced?: string[]; // Undefined without a fetcher
+}
+
+interface CompiledPattern {
+  grep: string; // POSIX ERE for `git grep -E` (pre-filter)
+  regex: RegExp; // Extracts the key (capture group 2)
+}
+
+const KEY_CHARS_JS = `[^'"\`\\s]+`;
+const KEY_CHARS_ERE = `[^'"\`[:space:]]+`;
+
+/**
+ * Compiles a `{key}` call template into a git grep pre-filter and a key-extracting regex
+ */
+export function compilePattern(template: string): CompiledPattern {
+  const parts = template.split('{key}');
+  if (parts.length !== 2) {
+    throw new Error(`Discover pattern must contain {key} exactly once: ${template}`);
+  }
+  const [before, after] = parts;
+
+  // The same metacharacters need escaping in JS regexes and POSIX EREs
+  const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+  // Don't match `myIsFeatureEnabled(` for `isFeatureEnabled(`
+  const boundary = /^[\w$]/.test(before) ? '(?<![\\w$])' : '';
+  const afterJs = after ? `\\s*${escape(after)}` : '';
+  const afterEre = after ? `[[:space:]]*${escape(after)}` : '';
+
+  return {
+    grep: `${escape(before)}[[:space:]]*['"\`]${KEY_CHARS_ERE}['"\`]${afterEre}`,
+    regex: new RegExp(`${boundary}${escape(before)}\\s*(['"\`])(${KEY_CHARS_JS})\\1${afterJs}`, 'g'),
+  };
+}
+
+/**
+ * Finds every flag key referenced through the given patterns in one repo at `origin/<baseBranch>`
+ */
+export async function scanRepo(
+  repoPath: string,
+  baseBranch: string,
+  patterns: string[]
+): Promise<Map<string, Array<Omit<FlagReference, 'repo'>>>> {
+  const compiled = patterns.map(compilePattern);
+  const matches = await gitGrep(
+    repoPath,
+    `origin/${baseBranch}`,
+    compiled.map((pattern) => pattern.grep)
+  );
+
+  const referencesByKey = new Map<string, Array<Omit<FlagReference, 'repo'>>>();
+  for (const { file, line, text } of matches) {
+    for (const { regex } of compiled) {
+      for (const match of text.matchAll(regex)) {
+        const key = match[2];
+        const references = referencesByKey.get(key) ?? [];
+        if (!references.some((r) => r.file === file && r.line === line)) {
+          references.push({ file, line });
+        }
+        referencesByKey.set(key, references);
+      }
+    }
+  }
+
+  return referencesByKey;
+}
+
+/**
+ * Splits code and provider keys into keys only in code and keys only in the provider
+ */
+export function crossReference(
+  inCode: DiscoveredFlag[],
+  providerKeys: string[]
+): { missingFromProvider: DiscoveredFlag[]; notInCode: string[] } {
+  const provider = new Set(providerKeys);
+  const code = new Set(inCode.map((flag) => flag.key));
+  return {
+    missingFromProvider: inCode.filter((flag) => !provider.has(flag.key)),
+    notInCode: providerKeys.filter((key) => !code.has(key)).sort(),
+  };
+}
+
+/**
+ * Scans all configured repos and compares the keys found with the provider's flag list
+ */
+export async function discover(config: DiscoverConfig): Promise<DiscoverSummary> {
+  const { configContext, fetcher, logger = consoleLogger } = config;
+  const { reposDir, config: byeByeConfig } = configContext;
+  const repoNames = Object.keys(byeByeConfig.repos);
+  const patterns = byeByeConfig.discover?.patterns ?? DEFAULT_DISCOVER_PATTERNS;
+
+  logger.log('\nFetching latest from origin...');
+  await fetchAllRepos(configContext, logger);
+
+  logger.log(`\nScanning for flag-SDK calls: ${patterns.join(', ')}`);
+  const referencesByKey = new Map<string, FlagReference[]>();
+  for (const repoName of repoNames) {
+    const baseBranch = getRepoBaseBranch(byeByeConfig, repoName);
+    const found = await scanRepo(path.join(reposDir, repoName), baseBranch, patterns);
+    logger.log(`  ${repoName}: ${found.size} flag key(s)`);
+    for (const [key, references] of found) {
+      const existing = referencesByKey.get(key) ?? [];
+      existing.push(...references.map((reference) => ({ repo: repoName, ...reference })));
+      referencesByKey.set(key, existing);
+    }
+  }
+
+  const inCode = [...referencesByKey]
+    .map(([key, references]) => ({ key, references }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+
+  const summary: DiscoverSummary = { patterns, inCode };
+
+  if (fetcher) {
+    logger.log('\nListing flags in the provider...');
+    const providerKeys = await listFlagKeys(fetcher, { reposDir });
+    logger.log(`  ${providerKeys.length} flag(s)`);
+
+    const { missingFromProvider, notInCode } = crossReference(inCode, providerKeys);
+
+    // Patterns only catch direct SDK calls; keep provider flags referenced any other way
+    const unreferenced: string[] = [];
+    for (const key of notInCode) {
+      let referenced = false;
+      for (const repoName of repoNames) {
+        const baseBranch = getRepoBaseBranch(byeByeConfig, repoName);
+        const search = getRepoSearch(byeByeConfig, repoName);
+        if ((await findFlagReferences(path.join(reposDir, repoName), key, baseBranch, search)).length > 0) {
+          referenced = true;
+          break;
+        }
+      }
+      if (!referenced) unreferenced.push(key);
+    }
+
+    summary.missingFromProvider = missingFromProvider;
+    summary.unreferenced = unreferenced;
+  }
+
+  printDiscoverSummary(summary, logger);
+  return summary;
+}
+
+function printDiscoverSummary(summary: DiscoverSummary, logger: Logger): void {
+  logger.log(`\n${'═'.repeat(60)}`);
+  logger.log('Discover summary');
+  logger.log('═'.repeat(60));
+  logger.log(`Flag keys in code: ${summary.inCode.length}`);
+
+  const formatReferences = (flag: DiscoveredFlag) =>
+    flag.references.map((r) => `${r.repo}/${r.file}:${r.line}`).join(', ');
+
+  if (!summary.missingFromProvider || !summary.unreferenced) {
+    for (const flag of summary.inCode) {
+      logger.log(`  • ${flag.key}: ${formatReferences(flag)}`);
+    }
+    logger.log('\nNo fetcher configured: skipped the comparison with the provider.');
+    logger.log('');
+    return;
+  }
+
+  logger.log(
+    `\nIn code but missing from the provider (dead branches to remove): ${summary.missingFromProvider.length}`
+  );
+  for (const flag of summary.missingFromProvider) {
+    logger.log(`  • ${flag.key}: ${formatReferences(flag)}`);
+  }
+  if (summary.missingFromProvider.length > 0) {
+    logger.log('  Unknown flags evaluate as off, so remove them with --keep=disabled.');
+  }
+
+  logger.log(`\nIn the provider but not referenced in code: ${summary.unreferenced.length}`);
+  for (const key of summary.unreferenced) {
+    logger.log(`  • ${key}`);
+  }
+
+  logger.log('');
+}
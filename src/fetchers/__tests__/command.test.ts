@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { fetchFlags } from '../command/index.ts';
+
+describe('command fetcher', () => {
+  let reposDir: string;
+
+  const writeScript = (name: string, source: string) => fs.writeFileSync(path.join(reposDir, name), source);
+
+  beforeEach(() => {
+    reposDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bye-bye-flag-command-'));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    fs.rmSync(reposDir, { recursive: true, force: true });
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('runs in the target-repos dir and passes through only the listed env vars', async () => {
+    vi.stubEnv('FLAGS_TOKEN', 'token-123');
+    vi.stubEnv('UNRELATED_SECRET', 'do-not-leak');
+    writeScript(
+      'fetch-flags.mjs',
+      `console.log(JSON.stringify([{
+        key: 'new-checkout',
+        keepBranch: 'enabled',
+        metadata: { cwd: process.cwd(), arg: process.argv[2], token: process.env.FLAGS_TOKEN, leaked: process.env.UNRELATED_SECRET ?? null },
+      }]));`
+    );
+
+    const flags = await fetchFlags(
+      {
+        type: 'command',
+        command: process.execPath,
+        args: ['fetch-flags.mjs', '--stale'],
+        passEnv: ['FLAGS_TOKEN'],
+      },
+      { reposDir }
+    );
+
+    expect(flags).toEqual([
+      {
+        key: 'new-checkout',
+        keepBranch: 'enabled',
+        metadata: { cwd: fs.realpathSync(reposDir), arg: '--stale', token: 'token-123', leaked: null },
+      },
+    ]);
+  });
+
+  it('validates the output against the input-file schema', async () => {
+    writeScript('bad-output.mjs', `console.log(JSON.stringify([{ key: 'x', keepBranch: 'maybe' }]));`);
+
+    await expect(
+      fetchFlags({ type: 'command', command: process.execPath, args: ['bad-output.mjs'] }, { reposDir })
+    ).rejects.toThrow(/Invalid fetcher command output[\s\S]*0\.keepBranch/);
+  });
+
+  it('fails on a non-zero exit code', async () => {
+    writeScript('fail.mjs', 'process.exit(3);');
+
+    await expect(
+      fetchFlags({ type: 'command', command: process.execPath, args: ['fail.mjs'] }, { reposDir })
+    ).rejects.toThrow('Fetcher command failed (exit code 3)');
+  });
+
+  it('fails when the command times out', async () => {
+    writeScript('slow.mjs', 'setTimeout(() => {}, 60_000);');
+
+    await expect(
+      fetchFlags(
+        { type: 'command', command: process.execPath, args: ['slow.mjs'], timeoutMinutes: 0.005 },
+        { reposDir }
+      )
+    ).rejects.toThrow('Fetcher command timed out');
+  });
+});
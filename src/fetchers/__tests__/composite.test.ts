@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { labelProviders, mergeProviderFlags } from '../composite.ts';
+
+describe('mergeProviderFlags', () => {
+  it('records the source provider of every flag', () => {
+    const { flags, conflicts } = mergeProviderFlags([
+      {
+        source: 'posthog',
+        flags: [{ key: 'old-banner', keepBranch: 'disabled', metadata: { projectIds: ['1'] } }],
+      },
+      { source: 'unleash', flags: [{ key: 'new-onboarding', keepBranch: 'enabled' }] },
+    ]);
+
+    expect(conflicts).toEqual([]);
+    expect(flags).toEqual([
+      { key: 'old-banner', keepBranch: 'disabled', metadata: { projectIds: ['1'], source: 'posthog' } },
+      { key: 'new-onboarding', keepBranch: 'enabled', metadata: { source: 'unleash' } },
+    ]);
+  });
+
+  it('merges flags that several providers agree on', () => {
+    const { flags } = mergeProviderFlags([
+      {
+        source: 'posthog',
+        flags: [
+          {
+            key: 'new-checkout',
+            keepBranch: 'enabled',
+            reason: '100% rolled out',
+            lastModified: '2024-01-01T00:00:00.000Z',
+            metadata: { projectIds: ['1'] },
+          },
+        ],
+      },
+      {
+        source: 'unleash',
+        flags: [
+          {
+            key: 'new-checkout',
+            keepBranch: 'enabled',
+            reason: 'Fully enabled in all environments',
+            lastModified: '2024-02-01T00:00:00.000Z',
+            createdBy: 'Ada Lovelace',
+          },
+        ],
+      },
+    ]);
+
+    expect(flags).toEqual([
+      {
+        key: 'new-checkout',
+        keepBranch: 'enabled',
+        reason: 'posthog: 100% rolled out; unleash: Fully enabled in all environments',
+        lastModified: '2024-02-01T00:00:00.000Z',
+        createdBy: 'Ada Lovelace',
+        metadata: {
+          source: 'posthog',
+          sources: ['posthog', 'unleash'],
+          providers: { posthog: { projectIds: ['1'] }, unleash: {} },
+        },
+      },
+    ]);
+  });
+
+  it('drops flags the providers disagree on', () => {
+    const { flags, conflicts } = mergeProviderFlags([
+      {
+        source: 'posthog',
+        flags: [
+          { key: 'new-checkout', keepBranch: 'enabled' },
+          { key: 'old-banner', keepBranch: 'disabled' },
+        ],
+      },
+      { source: 'unleash', flags: [{ key: 'new-checkout', keepBranch: 'disabled' }] },
+    ]);
+
+    expect(flags.map((f) => f.key)).toEqual(['old-banner']);
+    expect(conflicts).toEqual([
+      {
+        key: 'new-checkout',
+        reason: 'Providers disagree on keepBranch (posthog: enabled, unleash: disabled)',
+      },
+    ]);
+  });
+
+  it('drops flags another provider still serves without reporting them stale', () => {
+    const { flags, conflicts } = mergeProviderFlags([
+      {
+        source: 'posthog',
+        flags: [
+          { key: 'new-checkout', keepBranch: 'enabled' },
+          { key: 'old-banner', keepBranch: 'disabled' },
+        ],
+        allKeys: ['new-checkout', 'old-banner'],
+      },
+      { source: 'unleash', flags: [], allKeys: ['new-checkout', 'beta-users'] },
+      { source: 'command', flags: [] },
+    ]);
+
+    expect(flags.map((f) => f.key)).toEqual(['old-banner']);
+    expect(conflicts).toEqual([{ key: 'new-checkout', reason: 'Still live and not stale in unleash' }]);
+  });
+
+  it('tells providers of the same type apart', () => {
+    const sources = labelProviders(['unleash', 'posthog', 'unleash']);
+    expect(sources).toEqual(['unleash#1', 'posthog', 'unleash#2']);
+
+    const { flags, conflicts } = mergeProviderFlags([
+      {
+        source: sources[0],
+        flags: [
+          { key: 'new-checkout', keepBranch: 'enabled', createdBy: 'ada', metadata: { project: 'web' } },
+          { key: 'old-banner', keepBranch: 'disabled' },
+        ],
+        allKeys: ['new-checkout', 'old-banner'],
+      },
+      {
+        source: sources[2],
+        flags: [
+          { key: 'new-checkout', keepBranch: 'enabled', createdBy: 'grace', metadata: { project: 'app' } },
+        ],
+        allKeys: ['new-checkout', 'old-banner'],
+      },
+    ]);
+
+    expect(conflicts).toEqual([{ key: 'old-banner', reason: 'Still live and not stale in unleash#2' }]);
+    expect(flags).toEqual([
+      {
+        key: 'new-checkout',
+        keepBranch: 'enabled',
+        reason: undefined,
+        lastModified: undefined,
+        createdBy: 'ada, grace',
+        metadata: {
+          source: 'unleash#1',
+          sources: ['unleash#1', 'unleash#2'],
+          providers: { 'unleash#1': { project: 'web' }, 'unleash#2': { project: 'app' } },
+        },
+      },
+    ]);
+  });
+});
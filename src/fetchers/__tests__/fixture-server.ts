@@ -0,0 +1,62 @@
+/**
+ * Local HTTP server for the fetcher tests
+ *
+ * Serves JSON from a route table (`"<path>"` or `"<METHOD> <path>"`, query string included) or a
+ * resolver, answers 404 for anything else and records every request. `{{host}}` in a response
+ * is replaced with the server's own URL, for APIs that return absolute `next` links.
+ */
+
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface FixtureRequest {
+  method: string;
+  url: string; // Path and query string, as sent
+  authorization?: string;
+  body: string;
+}
+
+export type FixtureResolver = (request: FixtureRequest & { parsedUrl: URL }) => string | undefined;
+
+export interface FixtureServer {
+  host: string;
+  requests: FixtureRequest[];
+  close: () => Promise<void>;
+}
+
+export async function startFixtureServer(
+  routes: Record<string, string> | FixtureResolver
+): Promise<FixtureServer> {
+  const requests: FixtureRequest[] = [];
+  const resolve: FixtureResolver =
+    typeof routes === 'function' ? routes : ({ method, url }) => routes[`${method} ${url}`] ?? routes[url];
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const request = {
+        method: req.method ?? 'GET',
+        url: req.url ?? '/',
+        authorization: req.headers.authorization,
+        body,
+      };
+      requests.push(request);
+      const response = resolve({ ...request, parsedUrl: new URL(request.url, 'http://localhost') });
+      if (response === undefined) {
+        res.writeHead(404).end('not found');
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(response.replaceAll('{{host}}', host));
+    });
+  });
+
+  await new Promise<void>((listening) => server.listen(0, '127.0.0.1', listening));
+  const host = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    host,
+    requests,
+    close: () => new Promise<void>((closed) => server.close(() => closed())),
+  };
+}
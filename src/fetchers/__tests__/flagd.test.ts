@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { execa } from 'execa';
+import { fetchFlags } from '../flagd/index.ts';
+
+const fixturesDir = path.join(import.meta.dirname, 'fixtures');
+
+describe('flagd fetcher', () => {
+  let reposDir: string;
+
+  beforeEach(() => {
+    reposDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bye-bye-flag-flagd-'));
+    fs.mkdirSync(path.join(reposDir, 'checkout', 'flags'), { recursive: true });
+    fs.mkdirSync(path.join(reposDir, 'payments'), { recursive: true });
+    fs.copyFileSync(
+      path.join(fixturesDir, 'flagd-checkout.json'),
+      path.join(reposDir, 'checkout', 'flags', 'flagd.json')
+    );
+    fs.copyFileSync(
+      path.join(fixturesDir, 'flagd-payments.json'),
+      path.join(reposDir, 'payments', 'flags.json')
+    );
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    fs.rmSync(reposDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('returns disabled flags and flags that always serve one boolean value', async () => {
+    const flags = await fetchFlags({ type: 'flagd', files: ['checkout/flags/flagd.json'] }, { reposDir });
+
+    expect(flags.map((f) => [f.key, f.keepBranch])).toEqual([
+      ['always-on-banner', 'enabled'],
+      ['legacy-header', 'disabled'],
+      ['new-checkout', 'enabled'],
+      ['shared-rollout', 'enabled'],
+    ]);
+    expect(flags[1].reason).toBe(
+      'Disabled in checkout/flags/flagd.json (SDKs return the code default, assumed to be false)'
+    );
+    expect(flags[2].reason).toBe('Always serves true (variant "on") in checkout/flags/flagd.json');
+    expect(flags[2].metadata).toEqual({ files: ['checkout/flags/flagd.json'], servedValue: true });
+  });
+
+  it('skips disabled flags that are not boolean', async () => {
+    const flags = await fetchFlags({ type: 'flagd', files: ['checkout/flags/flagd.json'] }, { reposDir });
+
+    // A disabled string flag serves the code default, not `false`
+    expect(flags.map((f) => f.key)).not.toContain('legacy-theme');
+  });
+
+  it('drops flags whose definitions disagree across files', async () => {
+    const flags = await fetchFlags(
+      { type: 'flagd', files: ['checkout/flags/flagd.json', 'payments/flags.json'] },
+      { reposDir }
+    );
+
+    expect(flags.map((f) => f.key)).toEqual(['always-on-banner', 'legacy-header', 'new-checkout']);
+    expect(flags.find((f) => f.key === 'new-checkout')?.metadata?.files).toEqual([
+      'checkout/flags/flagd.json',
+      'payments/flags.json',
+    ]);
+  });
+
+  it('uses the last commit date of the file for prioritization', async () => {
+    const repoDir = path.join(reposDir, 'payments');
+    await execa('git', ['init', '-q'], { cwd: repoDir });
+    await execa('git', ['add', '.'], { cwd: repoDir });
+    await execa(
+      'git',
+      ['-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'flags'],
+      {
+        cwd: repoDir,
+        env: { GIT_COMMITTER_DATE: '2024-01-10T00:00:00Z', GIT_AUTHOR_DATE: '2024-01-10T00:00:00Z' },
+      }
+    );
+
+    const flags = await fetchFlags({ type: 'flagd', files: ['payments/flags.json'] }, { reposDir });
+
+    expect(flags.map((f) => [f.key, f.lastModified])).toEqual([
+      ['new-checkout', '2024-01-10T00:00:00.000Z'],
+      ['shared-rollout', '2024-01-10T00:00:00.000Z'],
+    ]);
+    expect(flags[1].keepBranch).toBe('disabled');
+  });
+
+  it('throws when a file is missing', async () => {
+    await expect(fetchFlags({ type: 'flagd', files: ['missing.json'] }, { reposDir })).rejects.toThrow(
+      'Failed to read flagd file'
+    );
+  });
+});
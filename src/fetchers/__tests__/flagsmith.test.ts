@@ -0,0 +1,102 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fetchFlags } from '../flagsmith/index.ts';
+import { startFixtureServer, type FixtureRequest, type FixtureServer } from './fixture-server.ts';
+
+const fixturesDir = path.join(import.meta.dirname, 'fixtures');
+const readFixture = (name: string) => fs.readFileSync(path.join(fixturesDir, name), 'utf-8');
+const featurePages: Record<string, string> = {
+  '1:1': readFixture('flagsmith-features-production.json'),
+  '1:2': readFixture('flagsmith-features-production-page-2.json'),
+  '2:1': readFixture('flagsmith-features-staging.json'),
+};
+
+describe('Flagsmith fetcher', () => {
+  let server: FixtureServer;
+  let requests: FixtureRequest[];
+  let host: string;
+
+  beforeAll(async () => {
+    server = await startFixtureServer(({ parsedUrl }) => {
+      if (parsedUrl.pathname === '/api/v1/environments/' && parsedUrl.searchParams.get('project') === '12') {
+        return readFixture('flagsmith-environments.json');
+      }
+      if (parsedUrl.pathname === '/api/v1/projects/12/features/') {
+        const { searchParams } = parsedUrl;
+        return featurePages[`${searchParams.get('environment')}:${searchParams.get('page') ?? '1'}`];
+      }
+      return undefined;
+    });
+    ({ requests, host } = server);
+  });
+
+  afterAll(() => server.close());
+
+  beforeEach(() => {
+    requests.length = 0;
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-03-15T00:00:00Z'));
+    vi.stubEnv('FLAGSMITH_API_KEY', 'ser.test');
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps features that are uniformly on or off without overrides', async () => {
+    const flags = await fetchFlags({
+      type: 'flagsmith',
+      host,
+      projectId: '12',
+      environments: ['Production', 'staging-key'],
+    });
+
+    expect(flags).toEqual([
+      {
+        key: 'old-banner',
+        keepBranch: 'disabled',
+        reason: 'Off in all environments for 105 days',
+        lastModified: '2023-12-01T00:00:00.000Z',
+        createdBy: undefined,
+        metadata: { projectId: '12', environments: ['Production', 'staging-key'], servedValue: false },
+      },
+      {
+        key: 'dark-mode',
+        keepBranch: 'enabled',
+        reason: 'On in all environments for 74 days',
+        lastModified: '2024-01-01T00:00:00.000Z',
+        createdBy: 'grace',
+        metadata: { projectId: '12', environments: ['Production', 'staging-key'], servedValue: true },
+      },
+    ]);
+    expect(requests.every((r) => r.authorization === 'Api-Key ser.test')).toBe(true);
+  });
+
+  it('skips remote config values, overrides and multivariate features', async () => {
+    const flags = await fetchFlags({
+      type: 'flagsmith',
+      host,
+      projectId: '12',
+      environments: ['Production'],
+    });
+
+    const keys = flags.map((f) => f.key);
+    for (const key of ['button-color', 'beta-dashboard', 'checkout-variants', 'edge-flag', 'fresh-flag']) {
+      expect(keys).not.toContain(key);
+    }
+    // Only mixed across environments, so it is stale when Production is checked alone
+    expect(keys).toContain('half-launched');
+  });
+
+  it('rejects environments the project does not have', async () => {
+    await expect(
+      fetchFlags({ type: 'flagsmith', host, projectId: '12', environments: ['Prod'] })
+    ).rejects.toThrow(
+      'Unknown Flagsmith environment "Prod" in project 12 (available: Production, Staging, Development)'
+    );
+  });
+});
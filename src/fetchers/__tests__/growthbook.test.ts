@@ -0,0 +1,109 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fetchFlags } from '../growthbook/index.ts';
+import { startFixtureServer, type FixtureRequest, type FixtureServer } from './fixture-server.ts';
+
+const fixturesDir = path.join(import.meta.dirname, 'fixtures');
+const readFixture = (name: string) => fs.readFileSync(path.join(fixturesDir, name), 'utf-8');
+const featurePages: Record<string, string> = {
+  '0': readFixture('growthbook-features.json'),
+  '4': readFixture('growthbook-features-page-2.json'),
+};
+const experiments = JSON.parse(readFixture('growthbook-experiments.json')) as Record<string, unknown>;
+
+describe('GrowthBook fetcher', () => {
+  let server: FixtureServer;
+  let requests: FixtureRequest[];
+  let apiHost: string;
+
+  beforeAll(async () => {
+    server = await startFixtureServer(({ parsedUrl }) => {
+      if (parsedUrl.pathname === '/api/v1/features') {
+        return featurePages[parsedUrl.searchParams.get('offset') ?? '0'];
+      }
+      if (parsedUrl.pathname.startsWith('/api/v1/experiments/')) {
+        const experiment = experiments[parsedUrl.pathname.slice('/api/v1/experiments/'.length)];
+        return experiment ? JSON.stringify(experiment) : undefined;
+      }
+      return undefined;
+    });
+    ({ requests, host: apiHost } = server);
+  });
+
+  afterAll(() => server.close());
+
+  beforeEach(() => {
+    requests.length = 0;
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-03-15T00:00:00Z'));
+    vi.stubEnv('GROWTHBOOK_API_KEY', 'secret_test');
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('maps default values, disabled features and concluded experiments to a keep branch', async () => {
+    const flags = await fetchFlags({ type: 'growthbook', apiHost, environments: ['production', 'staging'] });
+
+    expect(flags.map((f) => [f.key, f.keepBranch])).toEqual([
+      ['old-banner', 'disabled'],
+      ['dark-mode', 'enabled'],
+      ['new-pricing-page', 'enabled'],
+    ]);
+
+    expect(flags[0].reason).toBe('Disabled in all environments for 105 days');
+    expect(flags[1].reason).toBe('Serving true in all environments for 74 days');
+    expect(flags[1].createdBy).toBe('grace');
+
+    const pricing = flags[2];
+    expect(pricing.reason).toBe(
+      'Experiment exp_pricing concluded with winner "New pricing" (serving true) for 43 days'
+    );
+    expect(pricing.lastModified).toBe('2024-02-01T00:00:00.000Z');
+    expect(pricing.metadata).toEqual({
+      environments: ['production', 'staging'],
+      servedValue: true,
+      experimentId: 'exp_pricing',
+      winningVariation: 'New pricing',
+    });
+  });
+
+  it('skips stopped experiments that released no variation', async () => {
+    const flags = await fetchFlags({ type: 'growthbook', apiHost, environments: ['production', 'staging'] });
+
+    // exp_signup has a winner, but users still get the default value
+    expect(flags.map((f) => f.key)).not.toContain('new-signup-flow');
+  });
+
+  it('pages through features and fetches each experiment once', async () => {
+    await fetchFlags({ type: 'growthbook', apiHost, environments: ['production', 'staging'] });
+
+    const urls = requests.map((r) => r.url);
+    expect(urls.filter((u) => u.startsWith('/api/v1/features'))).toHaveLength(2);
+    expect(urls.filter((u) => u === '/api/v1/experiments/exp_pricing')).toHaveLength(1);
+    expect(requests.every((r) => r.authorization === 'Bearer secret_test')).toBe(true);
+  });
+
+  it('uses the experiment conclusion date for staleness', async () => {
+    const flags = await fetchFlags({
+      type: 'growthbook',
+      apiHost,
+      environments: ['production', 'staging'],
+      staleDays: 50,
+    });
+
+    expect(flags.map((f) => f.key)).toEqual(['old-banner', 'dark-mode']);
+  });
+
+  it('requires GROWTHBOOK_API_KEY', async () => {
+    vi.stubEnv('GROWTHBOOK_API_KEY', '');
+    await expect(fetchFlags({ type: 'growthbook', apiHost, environments: ['production'] })).rejects.toThrow(
+      'Missing GROWTHBOOK_API_KEY'
+    );
+  });
+});
@@ -0,0 +1,119 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fetchFlags } from '../launchdarkly/index.ts';
+import { startFixtureServer, type FixtureRequest, type FixtureServer } from './fixture-server.ts';
+
+const fixturesDir = path.join(import.meta.dirname, 'fixtures');
+const pages: Record<string, string> = {
+  '0': fs.readFileSync(path.join(fixturesDir, 'launchdarkly-flags.json'), 'utf-8'),
+  '2': fs.readFileSync(path.join(fixturesDir, 'launchdarkly-flags-page-2.json'), 'utf-8'),
+};
+
+describe('LaunchDarkly fetcher', () => {
+  let server: FixtureServer;
+  let requests: FixtureRequest[];
+  let host: string;
+
+  beforeAll(async () => {
+    server = await startFixtureServer(({ parsedUrl }) =>
+      parsedUrl.pathname === '/api/v2/flags/web'
+        ? pages[parsedUrl.searchParams.get('offset') ?? '0']
+        : undefined
+    );
+    ({ requests, host } = server);
+  });
+
+  afterAll(() => server.close());
+
+  beforeEach(() => {
+    requests.length = 0;
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-03-15T00:00:00Z'));
+    vi.stubEnv('LAUNCHDARKLY_API_KEY', 'api-test-key');
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('returns flags serving one boolean value in every environment', async () => {
+    const flags = await fetchFlags({
+      type: 'launchdarkly',
+      projectKey: 'web',
+      environments: ['production', 'staging'],
+      host,
+    });
+
+    expect(flags.map((f) => f.key)).toEqual(['killed-experiment', 'new-checkout']);
+
+    const killed = flags[0];
+    expect(killed.keepBranch).toBe('disabled');
+    expect(killed.reason).toBe('Off in all environments for 74 days');
+    expect(killed.createdBy).toBe('Grace Hopper');
+
+    const checkout = flags[1];
+    expect(checkout.keepBranch).toBe('enabled');
+    expect(checkout.reason).toBe('Serving true in all environments for 43 days');
+    expect(checkout.lastModified).toBe('2024-02-01T00:00:00.000Z');
+    expect(checkout.createdBy).toBe('ada');
+    expect(checkout.metadata).toEqual({
+      projectKey: 'web',
+      environments: ['production', 'staging'],
+      servedValue: true,
+    });
+  });
+
+  it('follows pagination links and sends the API key', async () => {
+    await fetchFlags({
+      type: 'launchdarkly',
+      projectKey: 'web',
+      environments: ['production', 'staging'],
+      host,
+    });
+
+    expect(requests).toHaveLength(2);
+    expect(requests[0].url).toContain('env=production&env=staging');
+    expect(requests[1].url).toContain('offset=2');
+    expect(requests.every((r) => r.authorization === 'api-test-key')).toBe(true);
+  });
+
+  it('respects staleDays', async () => {
+    const flags = await fetchFlags({
+      type: 'launchdarkly',
+      projectKey: 'web',
+      environments: ['production', 'staging'],
+      staleDays: 60,
+      host,
+    });
+
+    expect(flags.map((f) => f.key)).toEqual(['killed-experiment']);
+  });
+
+  it('skips flags missing one of the configured environments', async () => {
+    const flags = await fetchFlags({
+      type: 'launchdarkly',
+      projectKey: 'web',
+      environments: ['production', 'staging', 'eu'],
+      host,
+    });
+
+    expect(flags).toEqual([]);
+  });
+
+  it('throws on API errors', async () => {
+    await expect(
+      fetchFlags({ type: 'launchdarkly', projectKey: 'missing', environments: ['production'], host })
+    ).rejects.toThrow('LaunchDarkly API error for project missing: 404');
+  });
+
+  it('requires LAUNCHDARKLY_API_KEY', async () => {
+    vi.stubEnv('LAUNCHDARKLY_API_KEY', '');
+    await expect(
+      fetchFlags({ type: 'launchdarkly', projectKey: 'web', environments: ['production'], host })
+    ).rejects.toThrow('Missing LAUNCHDARKLY_API_KEY');
+  });
+});
@@ -0,0 +1,154 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { archiveFlags, fetchFlags, listFlagKeys } from '../posthog/index.ts';
+import { startFixtureServer, type FixtureServer } from './fixture-server.ts';
+
+const fixturesDir = path.join(import.meta.dirname, 'fixtures');
+const readFixture = (name: string) => fs.readFileSync(path.join(fixturesDir, name), 'utf-8');
+const routes: Record<string, string> = {
+  'GET /api/projects/1/feature_flags/': readFixture('posthog-flags.json'),
+  'POST /api/projects/1/query/': readFixture('posthog-flag-activity.json'),
+  'PATCH /api/projects/1/feature_flags/4/': JSON.stringify({ id: 4, deleted: true }),
+};
+
+describe('PostHog fetcher', () => {
+  let server: FixtureServer;
+  let host: string;
+  const queries = () =>
+    server.requests
+      .filter((r) => r.method === 'POST')
+      .map((r) => (JSON.parse(r.body) as { query: { query: string } }).query.query);
+  const patches = () =>
+    server.requests
+      .filter((r) => r.method === 'PATCH')
+      .map((r) => ({ url: r.url, body: JSON.parse(r.body) }));
+
+  beforeAll(async () => {
+    server = await startFixtureServer(routes);
+    ({ host } = server);
+  });
+
+  afterAll(() => server.close());
+
+  beforeEach(() => {
+    server.requests.length = 0;
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-03-15T00:00:00Z'));
+    vi.stubEnv('POSTHOG_API_KEY', 'phx_test');
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the winning variant of multivariate flags with a single 100% variant', async () => {
+    const flags = await fetchFlags({ type: 'posthog', host, projectIds: ['1'] });
+
+    expect(flags.map((f) => [f.key, f.keepBranch, f.keepVariant])).toEqual([
+      ['new-navbar', 'enabled', undefined],
+      ['checkout-experiment', 'enabled', 'test'],
+      ['abandoned-experiment', 'disabled', undefined],
+    ]);
+
+    const checkout = flags[1];
+    expect(checkout.reason).toBe('Variant "test" at 100% rollout for 74 days');
+    expect(checkout.createdBy).toBe('grace');
+  });
+
+  it('skips multivariate flags that split traffic or override the variant per group', async () => {
+    const flags = await fetchFlags({ type: 'posthog', host, projectIds: ['1'] });
+
+    const keys = flags.map((f) => f.key);
+    expect(keys).not.toContain('pricing-experiment');
+    expect(keys).not.toContain('override-experiment');
+  });
+
+  it('does not query evaluation activity unless configured', async () => {
+    const flags = await fetchFlags({ type: 'posthog', host, projectIds: ['1'] });
+
+    expect(queries()).toEqual([]);
+    expect(flags[0].metadata).not.toHaveProperty('lastEvaluatedAt');
+  });
+
+  it('records the last evaluation and sorts flags with mixed responses last', async () => {
+    const flags = await fetchFlags({
+      type: 'posthog',
+      host,
+      projectIds: ['1'],
+      evaluationActivity: 'sort-last',
+    });
+
+    expect(queries()).toHaveLength(1);
+    expect(queries()[0]).toContain("event = '$feature_flag_called'");
+    expect(queries()[0]).toContain('INTERVAL 30 DAY');
+    expect(queries()[0]).toContain("IN ('new-navbar', 'checkout-experiment', 'abandoned-experiment')");
+
+    expect(flags.map((f) => f.key)).toEqual(['checkout-experiment', 'abandoned-experiment', 'new-navbar']);
+    expect(flags[0].metadata).toMatchObject({
+      lastEvaluatedAt: '2024-03-14T10:00:00.000Z',
+      evaluationResponses: { test: 500 },
+    });
+    expect(flags[1].metadata).toMatchObject({ lastEvaluatedAt: null, evaluationResponses: {} });
+    expect(flags[2].reason).toBe(
+      '100% rollout for 105 days; still evaluated with mixed responses (true: 200, false: 40)'
+    );
+    expect(flags[2].metadata?.lastEvaluatedAt).toBe('2024-03-13T00:00:00.000Z');
+  });
+
+  it('excludes flags with mixed responses when configured', async () => {
+    const flags = await fetchFlags({
+      type: 'posthog',
+      host,
+      projectIds: ['1'],
+      evaluationActivity: 'exclude',
+    });
+
+    expect(flags.map((f) => f.key)).toEqual(['checkout-experiment', 'abandoned-experiment']);
+  });
+
+  it('lists every live flag, stale or not', async () => {
+    const keys = await listFlagKeys({ type: 'posthog', host, projectIds: ['1'] });
+
+    expect(keys).toEqual([
+      'checkout-experiment',
+      'pricing-experiment',
+      'override-experiment',
+      'new-navbar',
+      'abandoned-experiment',
+    ]);
+  });
+
+  it('soft-deletes flags when archiving', async () => {
+    const results = await archiveFlags({ type: 'posthog', host, projectIds: ['1'] }, [
+      'new-navbar',
+      'gone-flag',
+    ]);
+
+    expect(results).toEqual([
+      {
+        flagKey: 'new-navbar',
+        provider: 'posthog',
+        target: 'project 1, flag id 4',
+        operation: `PATCH ${host}/api/projects/1/feature_flags/4/ {"deleted":true}`,
+        status: 'archived',
+      },
+      { flagKey: 'gone-flag', provider: 'posthog', target: 'project 1', status: 'not-found' },
+    ]);
+    expect(patches()).toEqual([{ url: '/api/projects/1/feature_flags/4/', body: { deleted: true } }]);
+  });
+
+  it('only previews archiving in dry-run mode', async () => {
+    const results = await archiveFlags({ type: 'posthog', host, projectIds: ['1'] }, ['new-navbar'], {
+      dryRun: true,
+    });
+
+    expect(results.map((r) => [r.status, r.operation])).toEqual([
+      ['would-archive', `PATCH ${host}/api/projects/1/feature_flags/4/ {"deleted":true}`],
+    ]);
+    expect(patches()).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fetchFlags } from '../unleash/index.ts';
+import { startFixtureServer, type FixtureRequest, type FixtureServer } from './fixture-server.ts';
+
+const fixturesDir = path.join(import.meta.dirname, 'fixtures');
+const routes: Record<string, string> = {
+  '/api/admin/projects/default/features': fs.readFileSync(
+    path.join(fixturesDir, 'unleash-features.json'),
+    'utf-8'
+  ),
+  '/api/admin/projects/default/features/half-rollout': fs.readFileSync(
+    path.join(fixturesDir, 'unleash-feature-half-rollout.json'),
+    'utf-8'
+  ),
+  '/api/admin/events/new-onboarding': fs.readFileSync(
+    path.join(fixturesDir, 'unleash-events-new-onboarding.json'),
+    'utf-8'
+  ),
+  '/api/admin/events/recently-enabled': fs.readFileSync(
+    path.join(fixturesDir, 'unleash-events-recently-enabled.json'),
+    'utf-8'
+  ),
+};
+
+describe('Unleash fetcher', () => {
+  let server: FixtureServer;
+  let requests: FixtureRequest[];
+  let host: string;
+
+  beforeAll(async () => {
+    server = await startFixtureServer(routes);
+    ({ requests, host } = server);
+  });
+
+  afterAll(() => server.close());
+
+  beforeEach(() => {
+    requests.length = 0;
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-03-15T00:00:00Z'));
+    vi.stubEnv('UNLEASH_API_TOKEN', 'user:test-token');
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('returns toggles that are fully on or fully off in every environment', async () => {
+    const flags = await fetchFlags({ type: 'unleash', host, projectIds: ['default'] });
+
+    // Stale-marked toggles are sorted first, toggles without change history last
+    expect(flags.map((f) => f.key)).toEqual(['legacy-search', 'new-onboarding', 'retired-banner']);
+
+    const legacy = flags[0];
+    expect(legacy.keepBranch).toBe('disabled');
+    expect(legacy.reason).toBe(
+      'Disabled in all environments (no change history); marked stale in Unleash; never seen by SDKs'
+    );
+    expect(legacy.lastModified).toBeUndefined();
+    expect(legacy.metadata).toEqual({
+      project: 'default',
+      environments: ['production', 'development'],
+      stale: true,
+      lastSeenAt: null,
+    });
+
+    const onboarding = flags[1];
+    expect(onboarding.keepBranch).toBe('enabled');
+    expect(onboarding.reason).toBe(
+      'Fully enabled in all environments (unchanged for 42 days); last seen 2024-03-10'
+    );
+    expect(onboarding.lastModified).toBe('2024-02-01T09:00:00.000Z');
+    expect(onboarding.createdBy).toBe('Ada Lovelace');
+    expect(onboarding.metadata?.lastSeenAt).toBe('2024-03-10T12:00:00.000Z');
+  });
+
+  it('uses the latest environment or strategy change instead of the creation date', async () => {
+    const flags = await fetchFlags({ type: 'unleash', host, projectIds: ['default'] });
+
+    // Created long ago, but enabled in production two weeks ago
+    expect(flags.map((f) => f.key)).not.toContain('recently-enabled');
+  });
+
+  it('requires the stale marker or an old lastSeenAt without change history', async () => {
+    const flags = await fetchFlags({ type: 'unleash', host, projectIds: ['default'] });
+
+    // Still evaluated by SDKs yesterday
+    expect(flags.map((f) => f.key)).not.toContain('quiet-toggle');
+    expect(flags.find((f) => f.key === 'retired-banner')?.reason).toBe(
+      'Disabled in all environments (no change history); last seen 2024-01-05'
+    );
+  });
+
+  it('loads feature details when the list omits strategies', async () => {
+    await fetchFlags({ type: 'unleash', host, projectIds: ['default'] });
+
+    expect(requests.map((r) => r.url)).toContain('/api/admin/projects/default/features/half-rollout');
+    expect(requests.every((r) => r.authorization === 'user:test-token')).toBe(true);
+  });
+
+  it('only considers configured environments', async () => {
+    const flags = await fetchFlags({
+      type: 'unleash',
+      host,
+      projectIds: ['default'],
+      environments: ['production'],
+    });
+
+    expect(flags.map((f) => f.key)).toEqual([
+      'legacy-search',
+      'mixed-state',
+      'new-onboarding',
+      'retired-banner',
+    ]);
+    expect(flags.find((f) => f.key === 'mixed-state')?.keepBranch).toBe('enabled');
+    // Development's later change does not count
+    expect(flags.find((f) => f.key === 'new-onboarding')?.lastModified).toBe('2024-01-20T15:00:00.000Z');
+  });
+
+  it('throws on API errors', async () => {
+    await expect(fetchFlags({ type: 'unleash', host, projectIds: ['missing'] })).rejects.toThrow(
+      'Unleash API error for project missing: 404'
+    );
+  });
+});
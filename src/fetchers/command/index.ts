@@ -0,0 +1,79 @@
+/**
+ * Command Fetcher
+ *
+ * Runs a user-supplied executable and reads the flags to remove from its stdout.
+ * Lets any in-house flag system plug in without changes to bye-bye-flag.
+ *
+ * Contract:
+ * - The command runs with the target-repos dir as cwd
+ * - Only PATH, HOME and the variables listed in `passEnv` are passed through
+ * - stdout must be a JSON array of flags (same format as an --input file)
+ * - stderr is forwarded for progress output
+ * - A non-zero exit code or a timeout fails the run
+ */
+
+import { execa } from 'execa';
+import { FlagToRemoveSchema, formatSchemaIssues } from '../schema.ts';
+import type { CommandFetcherConfig, FetcherContext, FlagToRemove } from '../types.ts';
+
+// Default: 10 minutes
+const DEFAULT_TIMEOUT_MINUTES = 10;
+const BASE_ENV_VARS = ['PATH', 'HOME'];
+
+/**
+ * Fetches flags by running the configured command
+ */
+export async function fetchFlags(
+  config: CommandFetcherConfig,
+  context: FetcherContext
+): Promise<FlagToRemove[]> {
+  const args = config.args ?? [];
+  const timeoutMinutes = config.timeoutMinutes ?? DEFAULT_TIMEOUT_MINUTES;
+  const commandLabel = [config.command, ...args].join(' ');
+
+  console.error(`Running fetcher command: ${commandLabel}`);
+
+  const result = await execa(config.command, args, {
+    cwd: context.reposDir,
+    env: buildEnv(config.passEnv ?? []),
+    extendEnv: false,
+    stdin: 'ignore',
+    stderr: 'inherit',
+    timeout: timeoutMinutes * 60 * 1000,
+    reject: false,
+  });
+
+  if (result.timedOut) {
+    throw new Error(`Fetcher command timed out after ${timeoutMinutes} minutes: ${commandLabel}`);
+  }
+  if (result.failed) {
+    const detail = result.exitCode !== undefined ? `exit code ${result.exitCode}` : result.shortMessage;
+    throw new Error(`Fetcher command failed (${detail}): ${commandLabel}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(result.stdout);
+  } catch {
+    throw new Error(`Failed to parse fetcher command output as JSON: ${commandLabel}`);
+  }
+
+  const validated = FlagToRemoveSchema.safeParse(parsed);
+  if (!validated.success) {
+    throw new Error(
+      `Invalid fetcher command output: ${commandLabel}\n${formatSchemaIssues(validated.error)}`
+    );
+  }
+
+  console.error(`\nFetcher command returned ${validated.data.length} flags`);
+  return validated.data;
+}
+
+function buildEnv(passEnv: string[]): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const name of [...BASE_ENV_VARS, ...passEnv]) {
+    const value = process.env[name];
+    if (value !== undefined) env[name] = value;
+  }
+  return env;
+}
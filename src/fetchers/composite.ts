@@ -0,0 +1,132 @@
+/**
+ * Composite Fetcher
+ *
+ * Merges the results of several fetchers into one list, keyed by flag key.
+ * Used while flags live in more than one system (e.g. during a provider migration).
+ *
+ * - Every flag records the provider it came from in `metadata.source`. Providers are labelled by
+ *   type, numbered when a type is configured more than once (`unleash#1`, `unleash#2`).
+ * - Flags reported by several providers are merged when they agree on `keepBranch` and
+ *   `keepVariant` (`metadata.sources` lists every provider, `metadata.providers` holds each
+ *   provider's own metadata)
+ * - Flags the providers disagree on are dropped, and the conflict is logged
+ * - Flags another provider still serves without reporting them stale are dropped too, when that
+ *   provider can list its flags (every fetcher except `command` and `manual`)
+ */
+
+import type { FlagToRemove } from './types.ts';
+
+export interface ProviderFlags {
+  source: string;
+  flags: FlagToRemove[];
+  allKeys?: string[]; // Every flag the provider still knows, stale or not (omitted if it cannot list them)
+}
+
+export interface MergeConflict {
+  key: string;
+  reason: string;
+}
+
+export interface MergeResult {
+  flags: FlagToRemove[];
+  conflicts: MergeConflict[];
+}
+
+/**
+ * Source labels for the configured providers, in order: the type, numbered if it repeats
+ */
+export function labelProviders(types: string[]): string[] {
+  const seen = new Map<string, number>();
+  return types.map((type) => {
+    const count = (seen.get(type) ?? 0) + 1;
+    seen.set(type, count);
+    return types.filter((t) => t === type).length > 1 ? `${type}#${count}` : type;
+  });
+}
+
+/**
+ * Tags a provider's flags with their source
+ */
+export function tagSource(source: string, flags: FlagToRemove[]): FlagToRemove[] {
+  return flags.map((flag) => ({ ...flag, metadata: { ...flag.metadata, source } }));
+}
+
+/**
+ * Merges flags from several providers by key (order follows first appearance)
+ */
+export function mergeProviderFlags(results: ProviderFlags[]): MergeResult {
+  const byKey = new Map<string, Array<{ source: string; flag: FlagToRemove }>>();
+
+  for (const { source, flags } of results) {
+    for (const flag of tagSource(source, flags)) {
+      const existing = byKey.get(flag.key) ?? [];
+      existing.push({ source, flag });
+      byKey.set(flag.key, existing);
+    }
+  }
+
+  const merged: FlagToRemove[] = [];
+  const conflicts: MergeConflict[] = [];
+
+  for (const [key, entries] of byKey) {
+    // A provider that lists the key without reporting it stale still serves it
+    const liveIn = results
+      .filter((r) => r.allKeys?.includes(key) && !entries.some((e) => e.source === r.source))
+      .map((r) => r.source);
+    if (liveIn.length > 0) {
+      conflicts.push({ key, reason: `Still live and not stale in ${liveIn.join(', ')}` });
+      continue;
+    }
+
+    if (entries.length === 1) {
+      merged.push(entries[0].flag);
+      continue;
+    }
+
+    const outcomes = new Set(entries.map((e) => describeOutcome(e.flag)));
+    if (outcomes.size > 1) {
+      const detail = entries.map((e) => `${e.source}: ${describeOutcome(e.flag)}`).join(', ');
+      conflicts.push({ key, reason: `Providers disagree on keepBranch (${detail})` });
+      continue;
+    }
+
+    merged.push(mergeEntries(entries));
+  }
+
+  return { flags: merged, conflicts };
+}
+
+function describeOutcome(flag: FlagToRemove): string {
+  return flag.keepVariant ? `${flag.keepBranch} (variant ${flag.keepVariant})` : flag.keepBranch;
+}
+
+function mergeEntries(entries: Array<{ source: string; flag: FlagToRemove }>): FlagToRemove {
+  const [first] = entries;
+  const sources = [...new Set(entries.map((e) => e.source))];
+
+  const creators = [...new Set(entries.map((e) => e.flag.createdBy).filter(Boolean))];
+  const reasons = entries.filter((e) => e.flag.reason).map((e) => `${e.source}: ${e.flag.reason}`);
+
+  // Use the most recent modification across providers (the flag is only as stale as its freshest copy)
+  const dates = entries.map((e) => e.flag.lastModified).filter((d): d is string => Boolean(d));
+  const lastModified =
+    dates.length > 0 ? new Date(Math.max(...dates.map((d) => Date.parse(d)))).toISOString() : undefined;
+
+  return {
+    key: first.flag.key,
+    keepBranch: first.flag.keepBranch,
+    ...(first.flag.keepVariant ? { keepVariant: first.flag.keepVariant } : {}),
+    reason: reasons.length > 0 ? reasons.join('; ') : undefined,
+    lastModified,
+    createdBy: creators.length > 0 ? creators.join(', ') : undefined,
+    metadata: {
+      source: first.source,
+      sources,
+      providers: Object.fromEntries(entries.map(({ source, flag }) => [source, stripSource(flag.metadata)])),
+    },
+  };
+}
+
+function stripSource(metadata: Record<string, unknown> | undefined): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(metadata ?? {}).filter(([field]) => field !== 'source'));
+}
@@ -0,0 +1,200 @@
+/**
+ * flagd Flag-Definition File Fetcher
+ *
+ * Reads OpenFeature flagd flag-definition JSON files checked into the target repos
+ * and returns flags that always evaluate to the same value. Works fully offline.
+ *
+ * Criteria for stale flags:
+ * - `state` is DISABLED and every variant is a boolean (keep the disabled branch). SDKs then
+ *   return the code default, which is assumed to be `false`; or
+ * - `state` is ENABLED and the flag either has a single variant, or has a
+ *   `defaultVariant` and no `targeting`
+ * - The served variant must be a boolean
+ * - If a flag is defined in several files, all definitions must agree
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { execa } from 'execa';
+import type { FetcherContext, FlagdFetcherConfig, FlagToRemove } from '../types.ts';
+
+// flagd flag-definition types
+interface FlagdFlag {
+  state: 'ENABLED' | 'DISABLED';
+  variants?: Record<string, unknown>;
+  defaultVariant?: string;
+  targeting?: unknown;
+}
+
+interface FlagdDefinitionFile {
+  flags?: Record<string, FlagdFlag>;
+}
+
+interface FlagInfo {
+  file: string;
+  state: FlagdFlag['state'];
+  variant: string | null;
+  servedValue: boolean | null;
+  lastModified?: Date;
+}
+
+/**
+ * Reads stale flags from flagd definition files
+ */
+export async function fetchFlags(
+  config: FlagdFetcherConfig,
+  context: FetcherContext
+): Promise<FlagToRemove[]> {
+  if (config.files.length === 0) {
+    throw new Error('Missing fetcher.files in bye-bye-flag-config.json');
+  }
+
+  console.error(`Reading flagd flag definitions...`);
+
+  const flagsByKey = new Map<string, FlagInfo[]>();
+  let totalFlags = 0;
+
+  for (const file of config.files) {
+    const filePath = path.resolve(context.reposDir, file);
+    const definition = await readDefinitionFile(filePath);
+    const lastModified = await getLastCommitDate(filePath);
+    const entries = Object.entries(definition.flags ?? {});
+    console.error(`  ${file}: ${entries.length} flags`);
+    totalFlags += entries.length;
+
+    for (const [key, flag] of entries) {
+      const existing = flagsByKey.get(key) ?? [];
+      existing.push({ file, lastModified, ...resolveServedVariant(flag) });
+      flagsByKey.set(key, existing);
+    }
+  }
+
+  console.error(`Total: ${totalFlags} flags across ${config.files.length} file(s)`);
+
+  const staleFlags = analyzeFlags(flagsByKey);
+  console.error(
+    `\nFound ${staleFlags.length} stale flags (disabled, or a single boolean value with no targeting, consistent across files)`
+  );
+
+  return staleFlags;
+}
+
+/**
+ * Lists the keys of every flag defined in the configured files
+ */
+export async function listFlagKeys(config: FlagdFetcherConfig, context: FetcherContext): Promise<string[]> {
+  const keys = new Set<string>();
+  for (const file of config.files) {
+    const definition = await readDefinitionFile(path.resolve(context.reposDir, file));
+    for (const key of Object.keys(definition.flags ?? {})) {
+      keys.add(key);
+    }
+  }
+  return [...keys];
+}
+
+async function readDefinitionFile(filePath: string): Promise<FlagdDefinitionFile> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read flagd file: ${filePath}\n${message}`, { cause: error });
+  }
+
+  try {
+    return JSON.parse(content) as FlagdDefinitionFile;
+  } catch (error) {
+    throw new Error(`Failed to parse flagd file as JSON: ${filePath}`, { cause: error });
+  }
+}
+
+/**
+ * Best-effort: use the last commit touching the file as the modification date.
+ */
+async function getLastCommitDate(filePath: string): Promise<Date | undefined> {
+  const result = await execa('git', ['log', '-1', '--format=%cI', '--', path.basename(filePath)], {
+    cwd: path.dirname(filePath),
+    reject: false,
+  });
+  const stdout = typeof result.stdout === 'string' ? result.stdout.trim() : '';
+  if (result.exitCode !== 0 || !stdout) return undefined;
+  const date = new Date(stdout);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function hasTargeting(targeting: unknown): boolean {
+  if (targeting === undefined || targeting === null) return false;
+  if (typeof targeting === 'object' && Object.keys(targeting).length === 0) return false;
+  return true;
+}
+
+function resolveServedVariant(flag: FlagdFlag): Pick<FlagInfo, 'state' | 'variant' | 'servedValue'> {
+  if (flag.state === 'DISABLED') {
+    // Only a boolean flag's code default can be `false`; for other types there is no branch to keep
+    const values = Object.values(flag.variants ?? {});
+    const isBoolean = values.length > 0 && values.every((value) => typeof value === 'boolean');
+    return { state: 'DISABLED', variant: null, servedValue: isBoolean ? false : null };
+  }
+
+  const variants = Object.entries(flag.variants ?? {});
+  let variant: string | null = null;
+  if (variants.length === 1) {
+    variant = variants[0][0];
+  } else if (flag.defaultVariant !== undefined && !hasTargeting(flag.targeting)) {
+    variant = flag.defaultVariant;
+  }
+
+  const value = variant !== null ? flag.variants?.[variant] : undefined;
+  return {
+    state: flag.state,
+    variant,
+    servedValue: typeof value === 'boolean' ? value : null,
+  };
+}
+
+function analyzeFlags(flagsByKey: Map<string, FlagInfo[]>): FlagToRemove[] {
+  const staleFlags: FlagToRemove[] = [];
+
+  for (const [key, infos] of flagsByKey) {
+    if (infos.some((info) => info.servedValue === null)) continue;
+
+    // All definitions must agree on the served value
+    const servedValues = new Set(infos.map((info) => info.servedValue));
+    if (servedValues.size !== 1) continue;
+
+    const servedValue = infos[0].servedValue as boolean;
+    const keepBranch = servedValue ? 'enabled' : 'disabled';
+    const files = infos.map((info) => info.file);
+
+    const dates = infos
+      .map((info) => info.lastModified?.getTime())
+      .filter((t): t is number => t !== undefined);
+    const lastModified = dates.length > 0 ? new Date(Math.max(...dates)).toISOString() : undefined;
+
+    const reason = infos.every((info) => info.state === 'DISABLED')
+      ? `Disabled in ${files.join(', ')} (SDKs return the code default, assumed to be false)`
+      : `Always serves ${servedValue} (variant "${infos.find((i) => i.variant)?.variant}") in ${files.join(', ')}`;
+
+    staleFlags.push({
+      key,
+      keepBranch,
+      reason,
+      lastModified,
+      metadata: {
+        files,
+        servedValue,
+      },
+    });
+  }
+
+  // Sort by oldest first (flags without a known date last)
+  staleFlags.sort((a, b) => {
+    const aTs = a.lastModified ? Date.parse(a.lastModified) : Number.POSITIVE_INFINITY;
+    const bTs = b.lastModified ? Date.parse(b.lastModified) : Number.POSITIVE_INFINITY;
+    if (aTs === bTs) return a.key.localeCompare(b.key);
+    return aTs - bTs;
+  });
+
+  return staleFlags;
+}
@@ -0,0 +1,290 @@
+/**
+ * Flagsmith Features Fetcher
+ *
+ * Fetches stale features from Flagsmith that are candidates for removal.
+ *
+ * Criteria for stale features (checked in every configured environment):
+ * - Last modified > staleDays ago (default: 30)
+ * - Standard (not multivariate) feature
+ * - No remote-config value (treated like PostHog payloads)
+ * - No segment overrides and no identity overrides
+ * - Not archived
+ * - Must be uniformly on or off across all configured environments
+ */
+
+import type { FlagToRemove, FlagsmithFetcherConfig } from '../types.ts';
+
+// Flagsmith API types
+interface FlagsmithOwner {
+  email?: string;
+  first_name?: string;
+  last_name?: string;
+}
+
+interface FlagsmithFeatureState {
+  enabled: boolean;
+  feature_state_value: string | number | boolean | null;
+}
+
+interface FlagsmithFeature {
+  id: number;
+  name: string;
+  type: string;
+  is_archived: boolean;
+  created_date: string;
+  owners?: FlagsmithOwner[];
+  // Only populated when listing features for an environment (null = unknown)
+  num_segment_overrides?: number | null;
+  num_identity_overrides?: number | null;
+  environment_feature_state?: FlagsmithFeatureState | null;
+  last_modified_in_current_environment?: string | null;
+}
+
+interface FlagsmithEnvironment {
+  id: number;
+  name: string;
+  api_key: string;
+}
+
+interface FlagsmithPage<T> {
+  count: number;
+  next: string | null;
+  results: T[];
+}
+
+interface EnvironmentInfo {
+  environment: string;
+  lastModified: Date;
+  enabled: boolean;
+  hasOverrides: boolean;
+  hasValue: boolean;
+}
+
+// Default: 30 days
+const DEFAULT_STALE_DAYS = 30;
+const PAGE_SIZE = 100;
+
+/**
+ * Fetches stale features from Flagsmith
+ */
+export async function fetchFlags(config: FlagsmithFetcherConfig): Promise<FlagToRemove[]> {
+  const apiKey = process.env.FLAGSMITH_API_KEY;
+  const host = (config.host || 'https://api.flagsmith.com').replace(/\/+$/, '');
+  const { projectId, environments } = config;
+  const staleDays = config.staleDays ?? DEFAULT_STALE_DAYS;
+
+  if (!apiKey) {
+    throw new Error('Missing FLAGSMITH_API_KEY environment variable');
+  }
+
+  if (environments.length === 0) {
+    throw new Error('Missing fetcher.environments in bye-bye-flag-config.json');
+  }
+
+  console.error(`Fetching features from Flagsmith...`);
+  console.error(`Project: ${projectId}`);
+  console.error(`Environments: ${environments.join(', ')}`);
+
+  const resolved = await resolveEnvironments(projectId, environments, apiKey, host);
+
+  // Feature states and override counts are per environment, so list features once per environment
+  const featuresByEnvironment = new Map<string, Map<number, FlagsmithFeature>>();
+  for (const { name, environment } of resolved) {
+    const features = await fetchFeaturesForEnvironment(projectId, environment.id, apiKey, host);
+    console.error(`  ${name}: ${features.length} features`);
+    featuresByEnvironment.set(name, new Map(features.map((feature) => [feature.id, feature])));
+  }
+
+  const staleFlags = analyzeFeaturesAcrossEnvironments(
+    featuresByEnvironment,
+    projectId,
+    environments,
+    staleDays
+  );
+  console.error(
+    `\nFound ${staleFlags.length} stale features (>${staleDays} days, no overrides or remote config, consistent across environments)`
+  );
+
+  return staleFlags;
+}
+
+/**
+ * Lists the names of every unarchived feature in the project
+ */
+export async function listFlagKeys(config: FlagsmithFetcherConfig): Promise<string[]> {
+  const apiKey = process.env.FLAGSMITH_API_KEY;
+  const host = (config.host || 'https://api.flagsmith.com').replace(/\/+$/, '');
+
+  if (!apiKey) {
+    throw new Error('Missing FLAGSMITH_API_KEY environment variable');
+  }
+
+  // Features are project-wide; any configured environment lists all of them
+  const [{ environment }] = await resolveEnvironments(config.projectId, config.environments, apiKey, host);
+  const features = await fetchFeaturesForEnvironment(config.projectId, environment.id, apiKey, host);
+  return features.filter((feature) => !feature.is_archived).map((feature) => feature.name);
+}
+
+async function flagsmithGet<T>(url: string, apiKey: string): Promise<T> {
+  const response = await fetch(url, {
+    headers: {
+      Authorization: `Api-Key ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Flagsmith API error: ${response.status} ${response.statusText}\n${text}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+/**
+ * Matches configured environments by name or environment key
+ */
+async function resolveEnvironments(
+  projectId: string,
+  environments: string[],
+  apiKey: string,
+  host: string
+): Promise<Array<{ name: string; environment: FlagsmithEnvironment }>> {
+  const available = await flagsmithGet<FlagsmithEnvironment[]>(
+    `${host}/api/v1/environments/?project=${encodeURIComponent(projectId)}`,
+    apiKey
+  );
+
+  return environments.map((name) => {
+    const environment = available.find((env) => env.name === name || env.api_key === name);
+    if (!environment) {
+      throw new Error(
+        `Unknown Flagsmith environment "${name}" in project ${projectId} (available: ${available.map((env) => env.name).join(', ')})`
+      );
+    }
+    return { name, environment };
+  });
+}
+
+async function fetchFeaturesForEnvironment(
+  projectId: string,
+  environmentId: number,
+  apiKey: string,
+  host: string
+): Promise<FlagsmithFeature[]> {
+  const allFeatures: FlagsmithFeature[] = [];
+  const params = new URLSearchParams({ environment: String(environmentId), page_size: String(PAGE_SIZE) });
+  let url: string | null = `${host}/api/v1/projects/${encodeURIComponent(projectId)}/features/?${params}`;
+
+  while (url) {
+    const data: FlagsmithPage<FlagsmithFeature> = await flagsmithGet(url, apiKey);
+    allFeatures.push(...data.results);
+    url = data.results.length > 0 ? data.next : null;
+  }
+
+  return allFeatures;
+}
+
+function hasValue(value: FlagsmithFeatureState['feature_state_value']): boolean {
+  return value !== null && value !== undefined && value !== '';
+}
+
+function getEnvironmentInfo(
+  feature: FlagsmithFeature | undefined,
+  environment: string
+): EnvironmentInfo | null {
+  const state = feature?.environment_feature_state;
+  if (!feature || !state) return null;
+
+  // Unknown override counts are treated as overrides (never remove what we cannot check)
+  const segmentOverrides = feature.num_segment_overrides;
+  const identityOverrides = feature.num_identity_overrides;
+  const hasOverrides =
+    segmentOverrides === null ||
+    segmentOverrides === undefined ||
+    identityOverrides === null ||
+    identityOverrides === undefined ||
+    segmentOverrides > 0 ||
+    identityOverrides > 0;
+
+  return {
+    environment,
+    lastModified: new Date(feature.last_modified_in_current_environment || feature.created_date),
+    enabled: state.enabled,
+    hasOverrides,
+    hasValue: hasValue(state.feature_state_value),
+  };
+}
+
+function extractCreatorIdentifier(owners: FlagsmithOwner[] | undefined): string | null {
+  const owner = owners?.[0];
+  if (!owner) return null;
+  if (owner.email) {
+    const localPart = owner.email.split('@')[0];
+    return localPart || owner.email;
+  }
+  if (owner.first_name || owner.last_name) {
+    return [owner.first_name, owner.last_name].filter(Boolean).join(' ');
+  }
+  return null;
+}
+
+function analyzeFeaturesAcrossEnvironments(
+  featuresByEnvironment: Map<string, Map<number, FlagsmithFeature>>,
+  projectId: string,
+  environments: string[],
+  staleDays: number
+): FlagToRemove[] {
+  const now = new Date();
+  const staleThreshold = new Date(now.getTime() - staleDays * 24 * 60 * 60 * 1000);
+  const staleFlags: FlagToRemove[] = [];
+
+  const firstEnvironment = featuresByEnvironment.get(environments[0]) ?? new Map<number, FlagsmithFeature>();
+  for (const feature of firstEnvironment.values()) {
+    // Skip archived features (already gone from the provider)
+    if (feature.is_archived) continue;
+    if (feature.type !== 'STANDARD') continue;
+
+    const infos = environments.map((environment) =>
+      getEnvironmentInfo(featuresByEnvironment.get(environment)?.get(feature.id), environment)
+    );
+    if (infos.some((info) => info === null)) continue;
+    const envInfos = infos as EnvironmentInfo[];
+
+    // Check if ALL environments meet the stale criteria
+    const allStale = envInfos.every((info) => {
+      if (info.hasOverrides) return false;
+      if (info.hasValue) return false;
+      return info.lastModified <= staleThreshold;
+    });
+    if (!allStale) continue;
+
+    // All environments must agree on the served value
+    const servedValues = new Set(envInfos.map((info) => info.enabled));
+    if (servedValues.size !== 1) continue;
+
+    const servedValue = envInfos[0].enabled;
+    const keepBranch = servedValue ? 'enabled' : 'disabled';
+    // Use the most recent modification date across all environments
+    const latestDate = new Date(Math.max(...envInfos.map((i) => i.lastModified.getTime())));
+    const daysSinceModified = Math.floor((now.getTime() - latestDate.getTime()) / (24 * 60 * 60 * 1000));
+
+    staleFlags.push({
+      key: feature.name,
+      keepBranch,
+      reason: `${servedValue ? 'On' : 'Off'} in all environments for ${daysSinceModified} days`,
+      lastModified: latestDate.toISOString(),
+      createdBy: extractCreatorIdentifier(feature.owners) ?? undefined,
+      metadata: {
+        projectId,
+        environments,
+        servedValue,
+      },
+    });
+  }
+
+  // Sort by oldest first (prioritize removing older flags)
+  staleFlags.sort((a, b) => new Date(a.lastModified!).getTime() - new Date(b.lastModified!).getTime());
+
+  return staleFlags;
+}
@@ -0,0 +1,319 @@
+/**
+ * GrowthBook Features Fetcher
+ *
+ * Fetches stale boolean features from GrowthBook that are candidates for removal.
+ *
+ * Criteria for stale features (checked in every configured environment):
+ * - dateUpdated > staleDays ago (default: 30)
+ * - Boolean value type
+ * - Serving one value to everyone:
+ *   - disabled in the environment (serves `false`), or
+ *   - enabled with no active rules (serves the default value), or
+ *   - enabled with a single experiment rule whose experiment has concluded
+ *     (serves the winning / released variation)
+ * - Not archived
+ * - Must serve the same value in all configured environments
+ */
+
+import type { FlagToRemove, GrowthBookFetcherConfig } from '../types.ts';
+
+// GrowthBook API types
+interface GrowthBookRuleVariation {
+  variationId: string;
+  value: string;
+}
+
+interface GrowthBookRule {
+  type: string;
+  enabled: boolean;
+  condition?: string;
+  value?: string;
+  experimentId?: string;
+  variations?: GrowthBookRuleVariation[];
+}
+
+interface GrowthBookEnvironment {
+  enabled: boolean;
+  defaultValue?: string;
+  rules?: GrowthBookRule[];
+}
+
+interface GrowthBookFeature {
+  id: string;
+  archived: boolean;
+  valueType: string;
+  defaultValue: string;
+  owner?: string;
+  dateCreated: string;
+  dateUpdated: string;
+  environments: Record<string, GrowthBookEnvironment>;
+}
+
+interface GrowthBookFeaturesResponse {
+  features: GrowthBookFeature[];
+  hasMore: boolean;
+  nextOffset: number | null;
+}
+
+interface GrowthBookExperiment {
+  id: string;
+  name?: string;
+  status: string;
+  dateUpdated: string;
+  variations: Array<{ variationId: string; key?: string; name?: string }>;
+  resultSummary?: {
+    status?: string;
+    winner?: string;
+    releasedVariationId?: string;
+  } | null;
+}
+
+interface GrowthBookExperimentResponse {
+  experiment: GrowthBookExperiment;
+}
+
+interface ServedValue {
+  value: boolean;
+  lastModified: Date;
+  source: 'disabled' | 'default' | 'experiment';
+  experiment?: {
+    id: string;
+    winningVariation: string;
+  };
+}
+
+// Default: 30 days
+const DEFAULT_STALE_DAYS = 30;
+const PAGE_SIZE = 100;
+
+/**
+ * Fetches stale features from GrowthBook
+ */
+export async function fetchFlags(config: GrowthBookFetcherConfig): Promise<FlagToRemove[]> {
+  const apiKey = process.env.GROWTHBOOK_API_KEY;
+  const apiHost = (config.apiHost || 'https://api.growthbook.io').replace(/\/+$/, '');
+  const { environments } = config;
+  const staleDays = config.staleDays ?? DEFAULT_STALE_DAYS;
+
+  if (!apiKey) {
+    throw new Error('Missing GROWTHBOOK_API_KEY environment variable');
+  }
+
+  if (environments.length === 0) {
+    throw new Error('Missing fetcher.environments in bye-bye-flag-config.json');
+  }
+
+  console.error(`Fetching features from GrowthBook...`);
+  console.error(`Environments: ${environments.join(', ')}`);
+
+  const features = await fetchAllFeatures(apiKey, apiHost);
+  console.error(`Total: ${features.length} features`);
+
+  const loadExperiment = createExperimentLoader(apiKey, apiHost);
+  const staleFlags = await analyzeFeatures(features, environments, staleDays, loadExperiment);
+  console.error(
+    `\nFound ${staleFlags.length} stale features (>${staleDays} days, single boolean value, consistent across environments)`
+  );
+
+  return staleFlags;
+}
+
+/**
+ * Lists the ids of every unarchived feature
+ */
+export async function listFlagKeys(config: GrowthBookFetcherConfig): Promise<string[]> {
+  const apiKey = process.env.GROWTHBOOK_API_KEY;
+  const apiHost = (config.apiHost || 'https://api.growthbook.io').replace(/\/+$/, '');
+
+  if (!apiKey) {
+    throw new Error('Missing GROWTHBOOK_API_KEY environment variable');
+  }
+
+  const features = await fetchAllFeatures(apiKey, apiHost);
+  return features.filter((feature) => !feature.archived).map((feature) => feature.id);
+}
+
+async function growthBookGet<T>(url: string, apiKey: string): Promise<T> {
+  const response = await fetch(url, {
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`GrowthBook API error: ${response.status} ${response.statusText}\n${text}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+async function fetchAllFeatures(apiKey: string, apiHost: string): Promise<GrowthBookFeature[]> {
+  const allFeatures: GrowthBookFeature[] = [];
+  let offset: number | null = 0;
+
+  while (offset !== null) {
+    const data: GrowthBookFeaturesResponse = await growthBookGet(
+      `${apiHost}/api/v1/features?limit=${PAGE_SIZE}&offset=${offset}`,
+      apiKey
+    );
+    allFeatures.push(...data.features);
+    offset = data.hasMore && data.nextOffset !== null ? data.nextOffset : null;
+  }
+
+  return allFeatures;
+}
+
+type ExperimentLoader = (experimentId: string) => Promise<GrowthBookExperiment>;
+
+/**
+ * Lazily loads experiments referenced by feature rules (each experiment is fetched once).
+ */
+function createExperimentLoader(apiKey: string, apiHost: string): ExperimentLoader {
+  const cache = new Map<string, Promise<GrowthBookExperiment>>();
+  return (experimentId) => {
+    let pending = cache.get(experimentId);
+    if (!pending) {
+      pending = growthBookGet<GrowthBookExperimentResponse>(
+        `${apiHost}/api/v1/experiments/${encodeURIComponent(experimentId)}`,
+        apiKey
+      ).then((data) => data.experiment);
+      cache.set(experimentId, pending);
+    }
+    return pending;
+  };
+}
+
+function parseBoolean(value: string | undefined): boolean | null {
+  if (value === undefined) return null;
+  const normalized = value.trim();
+  if (normalized === 'true') return true;
+  if (normalized === 'false') return false;
+  return null;
+}
+
+/**
+ * Returns the variation an experiment released to everyone, or null if it has not released one.
+ * A stopped experiment without a released variation serves the default value, not its winner.
+ */
+function getWinningVariationId(experiment: GrowthBookExperiment): string | null {
+  if (experiment.status !== 'stopped') return null;
+  const summary = experiment.resultSummary;
+  if (!summary) return null;
+  return summary.releasedVariationId || null;
+}
+
+async function getServedValue(
+  feature: GrowthBookFeature,
+  environment: string,
+  loadExperiment: ExperimentLoader
+): Promise<ServedValue | null> {
+  const env = feature.environments[environment];
+  if (!env) return null;
+
+  const featureUpdated = new Date(feature.dateUpdated);
+
+  // Disabled features evaluate to null in the SDK (falsy for boolean checks)
+  if (!env.enabled) {
+    return { value: false, lastModified: featureUpdated, source: 'disabled' };
+  }
+
+  const defaultValue = parseBoolean(env.defaultValue ?? feature.defaultValue);
+  if (defaultValue === null) return null;
+
+  const activeRules = (env.rules ?? []).filter((rule) => rule.enabled);
+  if (activeRules.length === 0) {
+    return { value: defaultValue, lastModified: featureUpdated, source: 'default' };
+  }
+
+  if (activeRules.length !== 1) return null;
+  const rule = activeRules[0];
+  if (!rule.type.startsWith('experiment') || !rule.experimentId || !rule.variations) return null;
+
+  const experiment = await loadExperiment(rule.experimentId);
+  const winningVariationId = getWinningVariationId(experiment);
+  if (!winningVariationId) return null;
+
+  const winningVariation = rule.variations.find((v) => v.variationId === winningVariationId);
+  const winningValue = parseBoolean(winningVariation?.value);
+  if (winningValue === null) return null;
+
+  // A targeted experiment only applies to some users; everyone else gets the default value
+  const hasCondition = Boolean(rule.condition && rule.condition.trim() !== '' && rule.condition !== '{}');
+  if (hasCondition && winningValue !== defaultValue) return null;
+
+  const experimentUpdated = new Date(experiment.dateUpdated);
+  const variationMeta = experiment.variations.find((v) => v.variationId === winningVariationId);
+
+  return {
+    value: winningValue,
+    lastModified: experimentUpdated > featureUpdated ? experimentUpdated : featureUpdated,
+    source: 'experiment',
+    experiment: {
+      id: experiment.id,
+      winningVariation: variationMeta?.name || variationMeta?.key || winningVariationId,
+    },
+  };
+}
+
+async function analyzeFeatures(
+  features: GrowthBookFeature[],
+  environments: string[],
+  staleDays: number,
+  loadExperiment: ExperimentLoader
+): Promise<FlagToRemove[]> {
+  const now = new Date();
+  const staleThreshold = new Date(now.getTime() - staleDays * 24 * 60 * 60 * 1000);
+  const staleFlags: FlagToRemove[] = [];
+
+  for (const feature of features) {
+    if (feature.archived) continue;
+    if (feature.valueType !== 'boolean') continue;
+    if (new Date(feature.dateUpdated) > staleThreshold) continue;
+
+    const served = await Promise.all(
+      environments.map((environment) => getServedValue(feature, environment, loadExperiment))
+    );
+    if (served.some((s) => s === null)) continue;
+    const servedValues = served as ServedValue[];
+
+    if (servedValues.some((s) => s.lastModified > staleThreshold)) continue;
+
+    // All environments must agree on the served value
+    if (new Set(servedValues.map((s) => s.value)).size !== 1) continue;
+
+    const value = servedValues[0].value;
+    const keepBranch = value ? 'enabled' : 'disabled';
+    const latestDate = new Date(Math.max(...servedValues.map((s) => s.lastModified.getTime())));
+    const daysSinceModified = Math.floor((now.getTime() - latestDate.getTime()) / (24 * 60 * 60 * 1000));
+
+    const experiment = servedValues.find((s) => s.experiment)?.experiment;
+    let reason: string;
+    if (experiment) {
+      reason = `Experiment ${experiment.id} concluded with winner "${experiment.winningVariation}" (serving ${value}) for ${daysSinceModified} days`;
+    } else if (servedValues.every((s) => s.source === 'disabled')) {
+      reason = `Disabled in all environments for ${daysSinceModified} days`;
+    } else {
+      reason = `Serving ${value} in all environments for ${daysSinceModified} days`;
+    }
+
+    staleFlags.push({
+      key: feature.id,
+      keepBranch,
+      reason,
+      lastModified: latestDate.toISOString(),
+      createdBy: feature.owner || undefined,
+      metadata: {
+        environments,
+        servedValue: value,
+        ...(experiment ? { experimentId: experiment.id, winningVariation: experiment.winningVariation } : {}),
+      },
+    });
+  }
+
+  // Sort by oldest first (prioritize removing older flags)
+  staleFlags.sort((a, b) => new Date(a.lastModified!).getTime() - new Date(b.lastModified!).getTime());
+
+  return staleFlags;
+}
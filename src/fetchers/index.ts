@@ -5,19 +5,183 @@
  * The orchestrator imports fetchers from here.
  */
 
-import { fetchFlags as fetchPostHog } from './posthog/index.ts';
-import type { FlagToRemove, FetcherConfig } from './types.ts';
+import {
+  fetchFlags as fetchPostHog,
+  archiveFlags as archivePostHog,
+  listFlagKeys as listPostHog,
+} from './posthog/index.ts';
+import { fetchFlags as fetchLaunchDarkly, listFlagKeys as listLaunchDarkly } from './launchdarkly/index.ts';
+import { fetchFlags as fetchUnleash, listFlagKeys as listUnleash } from './unleash/index.ts';
+import { fetchFlags as fetchGrowthBook, listFlagKeys as listGrowthBook } from './growthbook/index.ts';
+import { fetchFlags as fetchFlagsmith, listFlagKeys as listFlagsmith } from './flagsmith/index.ts';
+import { fetchFlags as fetchFlagd, listFlagKeys as listFlagd } from './flagd/index.ts';
+import { fetchFlags as fetchCommand } from './command/index.ts';
+import { labelProviders, mergeProviderFlags, tagSource, type ProviderFlags } from './composite.ts';
+import type {
+  ArchiveOptions,
+  ArchiveResult,
+  FlagToRemove,
+  FetcherConfig,
+  FetcherContext,
+  CompositeFetcherConfig,
+} from './types.ts';
 
-export type { FlagToRemove, FetcherConfig, PostHogFetcherConfig } from './types.ts';
+export type {
+  ArchiveOptions,
+  ArchiveResult,
+  FlagToRemove,
+  FetcherConfig,
+  CompositeFetcherConfig,
+  FetcherContext,
+  PostHogFetcherConfig,
+  LaunchDarklyFetcherConfig,
+  UnleashFetcherConfig,
+  GrowthBookFetcherConfig,
+  FlagsmithFetcherConfig,
+  FlagdFetcherConfig,
+  CommandFetcherConfig,
+} from './types.ts';
 
 /**
- * Fetches flags using the configured fetcher
+ * Fetches flags using the configured fetcher, or merges the results of several fetchers
  */
-export async function fetchFlags(config: FetcherConfig): Promise<FlagToRemove[]> {
+export async function fetchFlags(
+  config: FetcherConfig | CompositeFetcherConfig,
+  context: FetcherContext
+): Promise<FlagToRemove[]> {
+  if (!Array.isArray(config)) {
+    return tagSource(config.type, await fetchFromProvider(config, context));
+  }
+
+  const labels = labelProviders(config.map((c) => c.type));
+  const results: ProviderFlags[] = [];
+  for (const [index, providerConfig] of config.entries()) {
+    const flags = await fetchFromProvider(providerConfig, context);
+    // Lets the merge drop flags another provider still serves
+    const canList = providerConfig.type !== 'command' && providerConfig.type !== 'manual';
+    const allKeys = canList ? await listFromProvider(providerConfig, context) : undefined;
+    results.push({ source: labels[index], flags, allKeys });
+  }
+
+  const { flags, conflicts } = mergeProviderFlags(results);
+  for (const conflict of conflicts) {
+    console.error(`Dropping ${conflict.key}: ${conflict.reason}`);
+  }
+  console.error(
+    `\nMerged ${config.length} fetchers into ${flags.length} flags (${conflicts.length} dropped due to conflicts or live copies)`
+  );
+
+  return flags;
+}
+
+/**
+ * Lists the keys of every flag the configured provider(s) still know about, stale or not.
+ * Throws for fetchers that only report stale flags (`command`, `manual`).
+ */
+export async function listFlagKeys(
+  config: FetcherConfig | CompositeFetcherConfig,
+  context: FetcherContext
+): Promise<string[]> {
+  const configs = Array.isArray(config) ? config : [config];
+  const keys = new Set<string>();
+
+  for (const providerConfig of configs) {
+    for (const key of await listFromProvider(providerConfig, context)) {
+      keys.add(key);
+    }
+  }
+
+  return [...keys].sort();
+}
+
+/**
+ * Returns a label for the configured fetcher(s), e.g. "posthog" or "posthog+unleash"
+ */
+export function describeFetcher(config: FetcherConfig | CompositeFetcherConfig): string {
+  return Array.isArray(config) ? config.map((c) => c.type).join('+') : config.type;
+}
+
+/**
+ * Archives flags in the configured provider(s) once their code has been removed.
+ * Providers without archival support report `unsupported` for every flag.
+ */
+export async function archiveFlags(
+  config: FetcherConfig | CompositeFetcherConfig,
+  flagKeys: string[],
+  options: ArchiveOptions = {}
+): Promise<ArchiveResult[]> {
+  const configs = Array.isArray(config) ? config : [config];
+  const results: ArchiveResult[] = [];
+
+  for (const providerConfig of configs) {
+    switch (providerConfig.type) {
+      case 'posthog':
+        results.push(...(await archivePostHog(providerConfig, flagKeys, options)));
+        break;
+
+      default:
+        results.push(
+          ...flagKeys.map((flagKey) => ({
+            flagKey,
+            provider: providerConfig.type,
+            status: 'unsupported' as const,
+          }))
+        );
+    }
+  }
+
+  return results;
+}
+
+async function listFromProvider(config: FetcherConfig, context: FetcherContext): Promise<string[]> {
+  switch (config.type) {
+    case 'posthog':
+      return listPostHog(config);
+
+    case 'launchdarkly':
+      return listLaunchDarkly(config);
+
+    case 'unleash':
+      return listUnleash(config);
+
+    case 'growthbook':
+      return listGrowthBook(config);
+
+    case 'flagsmith':
+      return listFlagsmith(config);
+
+    case 'flagd':
+      return listFlagd(config, context);
+
+    case 'command':
+    case 'manual':
+      throw new Error(`The ${config.type} fetcher cannot list all flags, only stale ones`);
+  }
+}
+
+async function fetchFromProvider(config: FetcherConfig, context: FetcherContext): Promise<FlagToRemove[]> {
   switch (config.type) {
     case 'posthog':
       return fetchPostHog(config);
 
+    case 'launchdarkly':
+      return fetchLaunchDarkly(config);
+
+    case 'unleash':
+      return fetchUnleash(config);
+
+    case 'growthbook':
+      return fetchGrowthBook(config);
+
+    case 'flagsmith':
+      return fetchFlagsmith(config);
+
+    case 'flagd':
+      return fetchFlagd(config, context);
+
+    case 'command':
+      return fetchCommand(config, context);
+
     case 'manual':
       throw new Error('Manual fetcher requires --input flag. No fetcher to run.');
   }
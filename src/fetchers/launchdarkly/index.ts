@@ -0,0 +1,267 @@
+/**
+ * LaunchDarkly Feature Flags Fetcher
+ *
+ * Fetches stale feature flags from LaunchDarkly that are candidates for removal.
+ *
+ * Criteria for stale flags (checked in every configured environment):
+ * - lastModified > staleDays ago (default: 30)
+ * - Serving a single boolean value (targeting off, or fallthrough to one variation)
+ * - No targeting rules, individual targets or prerequisites
+ * - Not archived
+ * - Must serve the same value in all configured environments
+ */
+
+import type { FlagToRemove, LaunchDarklyFetcherConfig } from '../types.ts';
+
+// LaunchDarkly API types
+interface LaunchDarklyMaintainer {
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+interface LaunchDarklyVariation {
+  _id?: string;
+  value: unknown;
+  name?: string;
+}
+
+interface LaunchDarklyEnvironment {
+  on: boolean;
+  archived?: boolean;
+  lastModified: number;
+  offVariation?: number;
+  fallthrough?: {
+    variation?: number;
+    rollout?: unknown;
+  };
+  rules?: unknown[];
+  targets?: unknown[];
+  contextTargets?: unknown[];
+  prerequisites?: unknown[];
+}
+
+interface LaunchDarklyFlag {
+  key: string;
+  name: string;
+  kind: string;
+  archived: boolean;
+  creationDate: number;
+  _maintainer?: LaunchDarklyMaintainer | null;
+  variations: LaunchDarklyVariation[];
+  environments?: Record<string, LaunchDarklyEnvironment>;
+}
+
+interface LaunchDarklyResponse {
+  items: LaunchDarklyFlag[];
+  totalCount?: number;
+  _links?: {
+    next?: { href: string };
+  };
+}
+
+interface EnvironmentInfo {
+  environment: string;
+  lastModified: Date;
+  on: boolean;
+  servedValue: boolean | null;
+  hasTargeting: boolean;
+}
+
+// Default: 30 days
+const DEFAULT_STALE_DAYS = 30;
+const PAGE_SIZE = 100;
+
+/**
+ * Fetches stale flags from LaunchDarkly
+ */
+export async function fetchFlags(config: LaunchDarklyFetcherConfig): Promise<FlagToRemove[]> {
+  const apiKey = process.env.LAUNCHDARKLY_API_KEY;
+  const { projectKey, environments } = config;
+  const host = config.host || 'https://app.launchdarkly.com';
+  const staleDays = config.staleDays ?? DEFAULT_STALE_DAYS;
+
+  if (!apiKey) {
+    throw new Error('Missing LAUNCHDARKLY_API_KEY environment variable');
+  }
+
+  if (environments.length === 0) {
+    throw new Error('Missing fetcher.environments in bye-bye-flag-config.json');
+  }
+
+  console.error(`Fetching feature flags from LaunchDarkly...`);
+  console.error(`Project: ${projectKey}`);
+  console.error(`Environments: ${environments.join(', ')}`);
+
+  const flags = await fetchFlagsForProject(projectKey, environments, apiKey, host);
+  console.error(`Total: ${flags.length} flags`);
+
+  const staleFlags = analyzeFlagsAcrossEnvironments(flags, projectKey, environments, staleDays);
+  console.error(
+    `\nFound ${staleFlags.length} stale flags (>${staleDays} days, single boolean value, no targeting, consistent across environments)`
+  );
+
+  return staleFlags;
+}
+
+/**
+ * Lists the keys of every unarchived flag in the project
+ */
+export async function listFlagKeys(config: LaunchDarklyFetcherConfig): Promise<string[]> {
+  const apiKey = process.env.LAUNCHDARKLY_API_KEY;
+  const host = config.host || 'https://app.launchdarkly.com';
+
+  if (!apiKey) {
+    throw new Error('Missing LAUNCHDARKLY_API_KEY environment variable');
+  }
+
+  const flags = await fetchFlagsForProject(config.projectKey, config.environments, apiKey, host);
+  return flags.filter((flag) => !flag.archived).map((flag) => flag.key);
+}
+
+async function fetchFlagsForProject(
+  projectKey: string,
+  environments: string[],
+  apiKey: string,
+  host: string
+): Promise<LaunchDarklyFlag[]> {
+  const allFlags: LaunchDarklyFlag[] = [];
+  const params = new URLSearchParams({ summary: '0', limit: String(PAGE_SIZE) });
+  for (const environment of environments) {
+    params.append('env', environment);
+  }
+  let url: string | null = `${host}/api/v2/flags/${encodeURIComponent(projectKey)}?${params}`;
+
+  while (url) {
+    const response = await fetch(url, {
+      headers: {
+        Authorization: apiKey,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(
+        `LaunchDarkly API error for project ${projectKey}: ${response.status} ${response.statusText}\n${text}`
+      );
+    }
+
+    const data: LaunchDarklyResponse = await response.json();
+    allFlags.push(...data.items);
+
+    // `next` links are host-relative paths
+    const next = data._links?.next?.href;
+    url = next && data.items.length > 0 ? new URL(next, host).toString() : null;
+  }
+
+  return allFlags;
+}
+
+function getVariationValue(flag: LaunchDarklyFlag, index: number | undefined): unknown {
+  if (index === undefined) return undefined;
+  return flag.variations[index]?.value;
+}
+
+/**
+ * Resolves the boolean value a flag serves to everyone in one environment,
+ * or null if the environment has targeting or a percentage rollout.
+ */
+function getEnvironmentInfo(flag: LaunchDarklyFlag, environment: string): EnvironmentInfo | null {
+  const env = flag.environments?.[environment];
+  if (!env) return null;
+
+  const hasTargeting =
+    (env.rules?.length ?? 0) > 0 ||
+    (env.targets?.length ?? 0) > 0 ||
+    (env.contextTargets?.length ?? 0) > 0 ||
+    (env.prerequisites?.length ?? 0) > 0;
+
+  let value: unknown;
+  if (!env.on) {
+    value = getVariationValue(flag, env.offVariation);
+  } else if (env.fallthrough?.rollout === undefined) {
+    value = getVariationValue(flag, env.fallthrough?.variation);
+  }
+
+  return {
+    environment,
+    lastModified: new Date(env.lastModified),
+    on: env.on,
+    servedValue: typeof value === 'boolean' ? value : null,
+    hasTargeting,
+  };
+}
+
+function extractCreatorIdentifier(maintainer: LaunchDarklyMaintainer | null | undefined): string | null {
+  if (!maintainer) return null;
+  if (maintainer.email) {
+    const localPart = maintainer.email.split('@')[0];
+    return localPart || maintainer.email;
+  }
+  if (maintainer.firstName || maintainer.lastName) {
+    return [maintainer.firstName, maintainer.lastName].filter(Boolean).join(' ');
+  }
+  return null;
+}
+
+function analyzeFlagsAcrossEnvironments(
+  flags: LaunchDarklyFlag[],
+  projectKey: string,
+  environments: string[],
+  staleDays: number
+): FlagToRemove[] {
+  const now = new Date();
+  const staleThreshold = new Date(now.getTime() - staleDays * 24 * 60 * 60 * 1000);
+  const staleFlags: FlagToRemove[] = [];
+
+  for (const flag of flags) {
+    // Skip archived flags (already gone from the provider)
+    if (flag.archived) continue;
+
+    const infos = environments.map((environment) => getEnvironmentInfo(flag, environment));
+    if (infos.some((info) => info === null)) continue;
+    const envInfos = infos as EnvironmentInfo[];
+
+    // Check if ALL environments meet the stale criteria
+    const allStale = envInfos.every((info) => {
+      if (info.hasTargeting) return false;
+      if (info.servedValue === null) return false;
+      return info.lastModified <= staleThreshold;
+    });
+    if (!allStale) continue;
+
+    // All environments must agree on the served value
+    const servedValues = new Set(envInfos.map((info) => info.servedValue));
+    if (servedValues.size !== 1) continue;
+
+    const servedValue = envInfos[0].servedValue as boolean;
+    const keepBranch = servedValue ? 'enabled' : 'disabled';
+    // Use the most recent modification date across all environments
+    const latestDate = new Date(Math.max(...envInfos.map((i) => i.lastModified.getTime())));
+    const daysSinceModified = Math.floor((now.getTime() - latestDate.getTime()) / (24 * 60 * 60 * 1000));
+
+    const allOff = envInfos.every((info) => !info.on);
+    const reason = allOff
+      ? `Off in all environments for ${daysSinceModified} days`
+      : `Serving ${servedValue} in all environments for ${daysSinceModified} days`;
+
+    staleFlags.push({
+      key: flag.key,
+      keepBranch,
+      reason,
+      lastModified: latestDate.toISOString(),
+      createdBy: extractCreatorIdentifier(flag._maintainer) ?? undefined,
+      metadata: {
+        projectKey,
+        environments,
+        servedValue,
+      },
+    });
+  }
+
+  // Sort by oldest first (prioritize removing older flags)
+  staleFlags.sort((a, b) => new Date(a.lastModified!).getTime() - new Date(b.lastModified!).getTime());
+
+  return staleFlags;
+}
@@ -78,8 +78,9 @@ Options:
   }
 
   const byeByeConfig = (await loadConfigContext(targetRepos)).config;
-  const fetcher = byeByeConfig.fetcher;
-  if (!fetcher || fetcher.type !== 'posthog') {
+  const fetchers = byeByeConfig.fetcher ? [byeByeConfig.fetcher].flat() : [];
+  const fetcher = fetchers.find((f) => f.type === 'posthog');
+  if (!fetcher) {
     console.error('Error: fetcher.type must be "posthog" in bye-bye-flag-config.json');
     process.exit(1);
   }
@@ -7,11 +7,15 @@
  * - updated_at > staleDays ago (default: 30)
  * - Either 0% or 100% rollout (no complex targeting)
  * - No payload
- * - No multivariate variants
+ * - Multivariate flags only when a single variant gets 100% (its key is returned as keepVariant)
  * - If flag exists in multiple projects, must be consistent across all
+ *
+ * Optional evaluation-activity check (`evaluationActivity`): queries `$feature_flag_called`
+ * events over the stale window. Flags still evaluated with responses other than the kept
+ * value are excluded or sorted last, and the last evaluation time is added to metadata.
  */
 
-import type { FlagToRemove, PostHogFetcherConfig } from '../types.ts';
+import type { ArchiveOptions, ArchiveResult, FlagToRemove, PostHogFetcherConfig } from '../types.ts';
 
 // PostHog API types
 interface PostHogUser {
@@ -35,14 +39,21 @@ interface PostHogFlag {
     groups?: Array<{
       properties?: unknown[];
       rollout_percentage?: number;
+      variant?: string | null; // Variant override for the group
     }>;
     multivariate?: {
-      variants?: unknown[];
+      variants?: PostHogVariant[];
     };
     payloads?: Record<string, unknown>;
   };
 }
 
+interface PostHogVariant {
+  key: string;
+  name?: string;
+  rollout_percentage: number;
+}
+
 interface PostHogResponse {
   count: number;
   next: string | null;
@@ -57,11 +68,21 @@ interface FlagInfo {
   rolloutPercentage: number | null;
   hasPayload: boolean;
   hasVariants: boolean;
+  winningVariant: string | null;
   active: boolean;
   deleted: boolean;
   createdBy: string | null;
 }
 
+interface PostHogQueryResponse {
+  results: Array<[string, string | null, number, string]>;
+}
+
+interface EvaluationActivity {
+  lastEvaluatedAt: Date | null;
+  responses: Record<string, number>;
+}
+
 // Default: 30 days
 const DEFAULT_STALE_DAYS = 30;
 
@@ -107,10 +128,45 @@ export async function fetchFlags(config: PostHogFetcherConfig): Promise<FlagToRe
 
   const staleFlags = analyzeFlagsAcrossProjects(flagsByProject, staleDays);
   console.error(
-    `\nFound ${staleFlags.length} stale flags (>${staleDays} days, 0% or 100% rollout, no payload, consistent across projects)`
+    `\nFound ${staleFlags.length} stale flags (>${staleDays} days, 0% or 100% rollout or a single 100% variant, no payload, consistent across projects)`
   );
 
-  return staleFlags;
+  if (!config.evaluationActivity || staleFlags.length === 0) {
+    return staleFlags;
+  }
+
+  console.error(`\nChecking $feature_flag_called activity over the last ${staleDays} days...`);
+  const activity = new Map<string, EvaluationActivity>();
+  for (const projectId of projectIds) {
+    const keys = staleFlags
+      .filter((flag) => (flag.metadata?.projects as string[] | undefined)?.includes(projectId))
+      .map((flag) => flag.key);
+    if (keys.length === 0) continue;
+    const projectActivity = await fetchEvaluationActivity(projectId, apiKey, host, keys, staleDays);
+    mergeEvaluationActivity(activity, projectActivity);
+  }
+
+  return applyEvaluationActivity(staleFlags, activity, config.evaluationActivity);
+}
+
+/**
+ * Lists the keys of every live (not deleted) flag across the configured projects
+ */
+export async function listFlagKeys(config: PostHogFetcherConfig): Promise<string[]> {
+  const apiKey = process.env.POSTHOG_API_KEY;
+  const host = config.host || 'https://app.posthog.com';
+
+  if (!apiKey) {
+    throw new Error('Missing POSTHOG_API_KEY environment variable');
+  }
+
+  const keys = new Set<string>();
+  for (const projectId of config.projectIds) {
+    for (const flag of await fetchFlagsForProject(projectId, apiKey, host)) {
+      if (!flag.deleted) keys.add(flag.key);
+    }
+  }
+  return [...keys];
 }
 
 async function fetchFlagsForProject(projectId: string, apiKey: string, host: string): Promise<PostHogFlag[]> {
@@ -140,6 +196,139 @@ async function fetchFlagsForProject(projectId: string, apiKey: string, host: str
   return allFlags;
 }
 
+function toHogQLString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Counts $feature_flag_called events per flag and response over the stale window
+ */
+async function fetchEvaluationActivity(
+  projectId: string,
+  apiKey: string,
+  host: string,
+  flagKeys: string[],
+  staleDays: number
+): Promise<Map<string, EvaluationActivity>> {
+  const query = `
+    SELECT
+      properties.$feature_flag AS flag,
+      toString(properties.$feature_flag_response) AS response,
+      count() AS calls,
+      max(timestamp) AS last_called
+    FROM events
+    WHERE event = '$feature_flag_called'
+      AND timestamp > now() - INTERVAL ${staleDays} DAY
+      AND properties.$feature_flag IN (${flagKeys.map(toHogQLString).join(', ')})
+    GROUP BY flag, response
+  `;
+
+  const response = await fetch(`${host}/api/projects/${projectId}/query/`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ query: { kind: 'HogQLQuery', query } }),
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(
+      `PostHog query API error for project ${projectId}: ${response.status} ${response.statusText}\n${text}`
+    );
+  }
+
+  const data: PostHogQueryResponse = await response.json();
+  const activity = new Map<string, EvaluationActivity>();
+  for (const [flag, flagResponse, calls, lastCalled] of data.results) {
+    // Clients that haven't loaded flags yet report no response; they don't tell us anything
+    if (flagResponse === null || flagResponse === '' || flagResponse === 'null') continue;
+
+    const entry = activity.get(flag) ?? { lastEvaluatedAt: null, responses: {} };
+    entry.responses[flagResponse] = (entry.responses[flagResponse] ?? 0) + calls;
+    const lastCalledAt = new Date(lastCalled);
+    if (!entry.lastEvaluatedAt || lastCalledAt > entry.lastEvaluatedAt) entry.lastEvaluatedAt = lastCalledAt;
+    activity.set(flag, entry);
+  }
+
+  return activity;
+}
+
+function mergeEvaluationActivity(
+  target: Map<string, EvaluationActivity>,
+  source: Map<string, EvaluationActivity>
+): void {
+  for (const [flag, entry] of source) {
+    const existing = target.get(flag);
+    if (!existing) {
+      target.set(flag, entry);
+      continue;
+    }
+    for (const [flagResponse, calls] of Object.entries(entry.responses)) {
+      existing.responses[flagResponse] = (existing.responses[flagResponse] ?? 0) + calls;
+    }
+    if (
+      entry.lastEvaluatedAt &&
+      (!existing.lastEvaluatedAt || entry.lastEvaluatedAt > existing.lastEvaluatedAt)
+    ) {
+      existing.lastEvaluatedAt = entry.lastEvaluatedAt;
+    }
+  }
+}
+
+/**
+ * Records evaluation activity in metadata and excludes (or sorts last) flags that are still
+ * evaluated with responses other than the value we're about to hard-code
+ */
+function applyEvaluationActivity(
+  flags: FlagToRemove[],
+  activity: Map<string, EvaluationActivity>,
+  mode: 'exclude' | 'sort-last'
+): FlagToRemove[] {
+  const settled: FlagToRemove[] = [];
+  const mixed: FlagToRemove[] = [];
+
+  for (const flag of flags) {
+    const entry = activity.get(flag.key);
+    const expectedResponse = flag.keepVariant ?? (flag.keepBranch === 'enabled' ? 'true' : 'false');
+    const responses = entry?.responses ?? {};
+    const annotated: FlagToRemove = {
+      ...flag,
+      metadata: {
+        ...flag.metadata,
+        lastEvaluatedAt: entry?.lastEvaluatedAt?.toISOString() ?? null,
+        evaluationResponses: responses,
+      },
+    };
+
+    if (Object.keys(responses).every((r) => r === expectedResponse)) {
+      settled.push(annotated);
+      continue;
+    }
+
+    const counts = Object.entries(responses)
+      .map(([r, calls]) => `${r}: ${calls}`)
+      .join(', ');
+    if (mode === 'exclude') {
+      console.error(`  Excluding ${flag.key}: still evaluated with mixed responses (${counts})`);
+      continue;
+    }
+    mixed.push({
+      ...annotated,
+      reason: [flag.reason, `still evaluated with mixed responses (${counts})`].filter(Boolean).join('; '),
+    });
+  }
+
+  if (mode === 'exclude') {
+    console.error(`Excluded ${flags.length - settled.length} flags still evaluated with mixed responses`);
+  } else if (mixed.length > 0) {
+    console.error(`Sorted ${mixed.length} flags still evaluated with mixed responses last`);
+  }
+
+  return [...settled, ...mixed];
+}
+
 function getRolloutPercentage(flag: PostHogFlag): number | null {
   const groups = flag.filters?.groups;
 
@@ -174,6 +363,22 @@ function hasVariants(flag: PostHogFlag): boolean {
   return Boolean(variants && variants.length > 0);
 }
 
+/**
+ * Returns the variant every user gets (a single variant at 100%, no group overrides), or null
+ */
+function getWinningVariant(flag: PostHogFlag): string | null {
+  const variants = flag.filters?.multivariate?.variants ?? [];
+  const winners = variants.filter((v) => v.rollout_percentage === 100);
+  if (winners.length !== 1) return null;
+  if (variants.some((v) => v !== winners[0] && v.rollout_percentage !== 0)) return null;
+
+  const winner = winners[0].key;
+  const overrides = (flag.filters?.groups ?? []).map((g) => g.variant).filter((v) => v != null);
+  if (overrides.some((v) => v !== winner)) return null;
+
+  return winner;
+}
+
 function extractCreatorIdentifier(user: PostHogUser | null): string | null {
   if (!user) return null;
   if (user.email) {
@@ -207,6 +412,7 @@ function analyzeFlagsAcrossProjects(
         rolloutPercentage: getRolloutPercentage(flag),
         hasPayload: hasPayload(flag),
         hasVariants: hasVariants(flag),
+        winningVariant: getWinningVariant(flag),
         active: flag.active,
         deleted: flag.deleted,
         createdBy,
@@ -233,8 +439,11 @@ function analyzeFlagsAcrossProjects(
       // Active flags: must have simple rollout (0% or 100%)
       if (info.rolloutPercentage !== 0 && info.rolloutPercentage !== 100) return false;
 
-      // Must not have payload or variants
-      if (info.hasPayload || info.hasVariants) return false;
+      // Must not have payload
+      if (info.hasPayload) return false;
+
+      // Multivariate flags at 100% must serve a single variant to everyone
+      if (info.hasVariants && info.rolloutPercentage === 100 && !info.winningVariant) return false;
 
       // Must be older than threshold
       if (info.updatedAt > staleThreshold) return false;
@@ -247,18 +456,21 @@ function analyzeFlagsAcrossProjects(
     // Determine keepBranch:
     // - Inactive flags → disabled
     // - Active at 0% → disabled
-    // - Active at 100% → enabled
+    // - Active at 100% → enabled (multivariate: keep the winning variant)
     // Check consistency across projects
-    const keepBranches = infos.map((info) => {
-      if (!info.active) return 'disabled';
-      return info.rolloutPercentage === 100 ? 'enabled' : 'disabled';
+    const outcomes = infos.map((info) => {
+      if (!info.active || info.rolloutPercentage !== 100) return { keepBranch: 'disabled' as const };
+      return {
+        keepBranch: 'enabled' as const,
+        keepVariant: info.hasVariants ? (info.winningVariant ?? undefined) : undefined,
+      };
     });
-    const uniqueKeepBranches = new Set(keepBranches);
+    const uniqueOutcomes = new Set(outcomes.map((o) => `${o.keepBranch}:${o.keepVariant ?? ''}`));
 
-    // All instances must agree on which branch to keep
-    if (uniqueKeepBranches.size !== 1) continue;
+    // All instances must agree on which branch (and variant) to keep
+    if (uniqueOutcomes.size !== 1) continue;
 
-    const keepBranch = keepBranches[0] as 'enabled' | 'disabled';
+    const { keepBranch, keepVariant } = outcomes[0];
     // Use the most recent modification date across all projects
     const latestDate = new Date(Math.max(...infos.map((i) => i.updatedAt.getTime())));
     const daysSinceModified = Math.floor((now.getTime() - latestDate.getTime()) / (24 * 60 * 60 * 1000));
@@ -266,9 +478,14 @@ function analyzeFlagsAcrossProjects(
     // Build reason
     const isInactive = infos.some((i) => !i.active);
     const rollout = infos[0].rolloutPercentage;
-    const reason = isInactive
-      ? `Inactive for ${daysSinceModified} days`
-      : `${rollout}% rollout for ${daysSinceModified} days`;
+    let reason: string;
+    if (isInactive) {
+      reason = `Inactive for ${daysSinceModified} days`;
+    } else if (keepVariant) {
+      reason = `Variant "${keepVariant}" at 100% rollout for ${daysSinceModified} days`;
+    } else {
+      reason = `${rollout}% rollout for ${daysSinceModified} days`;
+    }
 
     // Include all distinct creators when flags differ across projects/environments.
     const creators = [
@@ -279,6 +496,7 @@ function analyzeFlagsAcrossProjects(
     staleFlags.push({
       key,
       keepBranch,
+      ...(keepVariant ? { keepVariant } : {}),
       reason,
       lastModified: latestDate.toISOString(),
       createdBy,
@@ -295,6 +513,73 @@ function analyzeFlagsAcrossProjects(
   return staleFlags;
 }
 
+/**
+ * Soft-deletes flags in every configured project (PATCH `deleted: true`)
+ */
+export async function archiveFlags(
+  config: PostHogFetcherConfig,
+  flagKeys: string[],
+  options: ArchiveOptions = {}
+): Promise<ArchiveResult[]> {
+  const apiKey = process.env.POSTHOG_API_KEY;
+  const host = config.host || 'https://app.posthog.com';
+
+  if (!apiKey) {
+    throw new Error('Missing POSTHOG_API_KEY environment variable');
+  }
+
+  const results: ArchiveResult[] = [];
+
+  for (const projectId of config.projectIds) {
+    const flagsByKey = new Map(
+      (await fetchFlagsForProject(projectId, apiKey, host)).map((flag) => [flag.key, flag])
+    );
+
+    for (const flagKey of flagKeys) {
+      const flag = flagsByKey.get(flagKey);
+      if (!flag || flag.deleted) {
+        results.push({ flagKey, provider: 'posthog', target: `project ${projectId}`, status: 'not-found' });
+        continue;
+      }
+
+      const target = `project ${projectId}, flag id ${flag.id}`;
+      const url = `${host}/api/projects/${projectId}/feature_flags/${flag.id}/`;
+      const body = JSON.stringify({ deleted: true });
+      const operation = `PATCH ${url} ${body}`;
+      if (options.dryRun) {
+        results.push({ flagKey, provider: 'posthog', target, operation, status: 'would-archive' });
+        continue;
+      }
+
+      const response = await fetch(url, {
+        method: 'PATCH',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body,
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        results.push({
+          flagKey,
+          provider: 'posthog',
+          target,
+          operation,
+          status: 'failed',
+          error: `PostHog API error: ${response.status} ${response.statusText}\n${text}`,
+        });
+        continue;
+      }
+
+      results.push({ flagKey, provider: 'posthog', target, operation, status: 'archived' });
+    }
+  }
+
+  return results;
+}
+
 /**
  * For debugging: show all flags with their status
  */
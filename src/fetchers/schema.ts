@@ -0,0 +1,23 @@
+import { z } from 'zod';
+
+/**
+ * Zod schema for validating flag lists from untrusted sources (--input files, command fetchers)
+ */
+export const FlagToRemoveSchema = z.array(
+  z.object({
+    key: z.string().min(1),
+    keepBranch: z.enum(['enabled', 'disabled']),
+    keepVariant: z.string().min(1).optional(),
+    reason: z.string().optional(),
+    lastModified: z.string().optional(),
+    createdBy: z.string().optional(),
+    metadata: z.record(z.unknown()).optional(),
+  })
+);
+
+/**
+ * Formats zod issues as one "path: message" line each
+ */
+export function formatSchemaIssues(error: z.ZodError): string {
+  return error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`).join('\n');
+}
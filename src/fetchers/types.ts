@@ -4,6 +4,7 @@
 export interface FlagToRemove {
   key: string;
   keepBranch: 'enabled' | 'disabled';
+  keepVariant?: string; // Multivariate flags: the variant every user now gets (implies keepBranch 'enabled')
   reason?: string;
   lastModified?: string; // ISO date string for prioritization
   createdBy?: string; // Name or email of flag creator
@@ -25,6 +26,69 @@ export interface PostHogFetcherConfig extends BaseFetcherConfig {
   projectIds: string[];
   staleDays?: number;
   host?: string;
+  evaluationActivity?: 'exclude' | 'sort-last'; // Check $feature_flag_called events over the stale window
+}
+
+/**
+ * LaunchDarkly fetcher configuration
+ */
+export interface LaunchDarklyFetcherConfig extends BaseFetcherConfig {
+  type: 'launchdarkly';
+  projectKey: string;
+  environments: string[];
+  staleDays?: number;
+  host?: string;
+}
+
+/**
+ * Unleash fetcher configuration
+ */
+export interface UnleashFetcherConfig extends BaseFetcherConfig {
+  type: 'unleash';
+  host: string;
+  projectIds: string[];
+  environments?: string[];
+  staleDays?: number;
+}
+
+/**
+ * GrowthBook fetcher configuration
+ */
+export interface GrowthBookFetcherConfig extends BaseFetcherConfig {
+  type: 'growthbook';
+  environments: string[];
+  staleDays?: number;
+  apiHost?: string;
+}
+
+/**
+ * Flagsmith fetcher configuration
+ */
+export interface FlagsmithFetcherConfig extends BaseFetcherConfig {
+  type: 'flagsmith';
+  projectId: string;
+  environments: string[]; // Environment names or environment keys
+  staleDays?: number;
+  host?: string;
+}
+
+/**
+ * flagd fetcher configuration (reads flag-definition files from the target-repos dir)
+ */
+export interface FlagdFetcherConfig extends BaseFetcherConfig {
+  type: 'flagd';
+  files: string[]; // Paths relative to the target-repos dir
+}
+
+/**
+ * Command fetcher configuration (runs an external executable that prints flags as JSON)
+ */
+export interface CommandFetcherConfig extends BaseFetcherConfig {
+  type: 'command';
+  command: string;
+  args?: string[];
+  passEnv?: string[]; // Environment variables to pass through (PATH and HOME are always passed)
+  timeoutMinutes?: number;
 }
 
 /**
@@ -34,11 +98,51 @@ export interface ManualFetcherConfig extends BaseFetcherConfig {
   type: 'manual';
 }
 
-export type FetcherConfig = PostHogFetcherConfig | ManualFetcherConfig;
+export type FetcherConfig =
+  | PostHogFetcherConfig
+  | LaunchDarklyFetcherConfig
+  | UnleashFetcherConfig
+  | GrowthBookFetcherConfig
+  | FlagsmithFetcherConfig
+  | FlagdFetcherConfig
+  | CommandFetcherConfig
+  | ManualFetcherConfig;
+
+/**
+ * Several fetchers whose results are merged by flag key
+ */
+export type CompositeFetcherConfig = FetcherConfig[];
+
+/**
+ * Runtime context passed to fetchers
+ */
+export interface FetcherContext {
+  reposDir: string;
+}
+
+/**
+ * Options for archiving flags in their provider
+ */
+export interface ArchiveOptions {
+  dryRun?: boolean;
+}
+
+/**
+ * Outcome of archiving one flag in one provider location (e.g. a PostHog project)
+ */
+export interface ArchiveResult {
+  flagKey: string;
+  provider: string;
+  target?: string; // Provider-specific location, e.g. "project 12345"
+  operation?: string; // Provider API call made (or planned in dry-run), e.g. "PATCH <url> <body>"
+  status: 'archived' | 'would-archive' | 'not-found' | 'unsupported' | 'failed';
+  error?: string;
+}
 
 /**
  * Fetcher function signature
  */
 export type FetcherFn<T extends BaseFetcherConfig = BaseFetcherConfig> = (
-  config: T
+  config: T,
+  context: FetcherContext
 ) => Promise<FlagToRemove[]>;
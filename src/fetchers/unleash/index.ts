@@ -0,0 +1,327 @@
+/**
+ * Unleash Feature Toggles Fetcher
+ *
+ * Fetches feature toggles from a (self-hosted) Unleash instance that are candidates for removal.
+ *
+ * Criteria for stale toggles:
+ * - No environment or strategy change for more than staleDays (default: 30), going by the
+ *   toggle's event history (`/api/admin/events/:featureName`)
+ * - Every environment is either disabled, or enabled with a single `default` strategy
+ *   or a single 100% `flexibleRollout` strategy with no constraints or segments
+ * - All environments must agree (all disabled, or all fully enabled)
+ * - Not archived
+ *
+ * Without a change in the history (or when the token cannot read events), the toggle needs other
+ * evidence: Unleash's own `stale` marker, or a `lastSeenAt` older than staleDays.
+ *
+ * Unleash's own `stale` marker and `lastSeenAt` are reported in the reason and metadata.
+ * Toggles marked stale in Unleash are prioritized ahead of the rest.
+ */
+
+import type { FlagToRemove, UnleashFetcherConfig } from '../types.ts';
+
+// Unleash API types
+interface UnleashStrategy {
+  name: string;
+  disabled?: boolean | null;
+  constraints?: unknown[];
+  segments?: unknown[];
+  parameters?: Record<string, unknown>;
+}
+
+interface UnleashEnvironment {
+  name: string;
+  enabled: boolean;
+  strategies?: UnleashStrategy[];
+  lastSeenAt?: string | null;
+}
+
+interface UnleashFeature {
+  name: string;
+  type?: string;
+  project?: string;
+  stale: boolean;
+  archived?: boolean;
+  createdAt: string;
+  lastSeenAt?: string | null;
+  createdBy?: { name?: string | null } | null;
+  environments?: UnleashEnvironment[];
+}
+
+interface UnleashFeaturesResponse {
+  features: UnleashFeature[];
+}
+
+interface UnleashEvent {
+  type: string;
+  createdAt: string;
+  environment?: string | null;
+}
+
+interface UnleashEventsResponse {
+  events: UnleashEvent[];
+}
+
+type EnvironmentState = 'disabled' | 'enabled' | 'complex';
+
+interface Candidate {
+  feature: UnleashFeature;
+  environments: UnleashEnvironment[];
+  keepBranch: 'enabled' | 'disabled';
+}
+
+// Events that change what a toggle serves: enabling, disabling and strategy edits
+const STATE_CHANGE_EVENT = /^feature-(environment|strateg(y|ies))-/;
+
+// Default: 30 days
+const DEFAULT_STALE_DAYS = 30;
+
+/**
+ * Fetches stale toggles from Unleash
+ */
+export async function fetchFlags(config: UnleashFetcherConfig): Promise<FlagToRemove[]> {
+  const apiToken = process.env.UNLEASH_API_TOKEN;
+  const { host, projectIds } = config;
+  const staleDays = config.staleDays ?? DEFAULT_STALE_DAYS;
+
+  if (!apiToken) {
+    throw new Error('Missing UNLEASH_API_TOKEN environment variable');
+  }
+
+  if (projectIds.length === 0) {
+    throw new Error('Missing fetcher.projectIds in bye-bye-flag-config.json');
+  }
+
+  console.error(`Fetching feature toggles from Unleash...`);
+  console.error(`Projects: ${projectIds.join(', ')}`);
+
+  const fetched = await Promise.all(
+    projectIds.map(async (projectId) => {
+      console.error(`  Fetching project ${projectId}...`);
+      const features = await fetchFeaturesForProject(projectId, apiToken, host);
+      console.error(`    Found ${features.length} toggles`);
+      return features.map((feature) => ({ ...feature, project: feature.project ?? projectId }));
+    })
+  );
+  const features = fetched.flat();
+
+  console.error(`Total: ${features.length} toggles across ${projectIds.length} project(s)`);
+
+  const candidates = findCandidates(features, config.environments, staleDays);
+  const lastChanges = await Promise.all(
+    candidates.map((candidate) => fetchLastStateChange(candidate, apiToken, host))
+  );
+  const withoutHistory = lastChanges.filter((change) => change === undefined).length;
+  if (withoutHistory > 0) {
+    console.error(
+      `No change history for ${withoutHistory} toggle(s); these need the stale marker or an old lastSeenAt`
+    );
+  }
+
+  const staleFlags = analyzeCandidates(candidates, lastChanges, staleDays);
+  console.error(
+    `\nFound ${staleFlags.length} stale toggles (unchanged for >${staleDays} days, fully on or off, consistent across environments)`
+  );
+
+  return staleFlags;
+}
+
+/**
+ * Lists the names of every unarchived toggle across the configured projects
+ */
+export async function listFlagKeys(config: UnleashFetcherConfig): Promise<string[]> {
+  const apiToken = process.env.UNLEASH_API_TOKEN;
+
+  if (!apiToken) {
+    throw new Error('Missing UNLEASH_API_TOKEN environment variable');
+  }
+
+  const keys = new Set<string>();
+  for (const projectId of config.projectIds) {
+    const { features } = await unleashGet<UnleashFeaturesResponse>(
+      `${config.host.replace(/\/+$/, '')}/api/admin/projects/${encodeURIComponent(projectId)}/features`,
+      apiToken,
+      projectId
+    );
+    for (const feature of features) {
+      if (!feature.archived) keys.add(feature.name);
+    }
+  }
+  return [...keys];
+}
+
+async function unleashGet<T>(url: string, apiToken: string, projectId: string): Promise<T> {
+  const response = await fetch(url, {
+    headers: {
+      Authorization: apiToken,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(
+      `Unleash API error for project ${projectId}: ${response.status} ${response.statusText}\n${text}`
+    );
+  }
+
+  return (await response.json()) as T;
+}
+
+async function fetchFeaturesForProject(
+  projectId: string,
+  apiToken: string,
+  host: string
+): Promise<UnleashFeature[]> {
+  const baseUrl = `${host.replace(/\/+$/, '')}/api/admin/projects/${encodeURIComponent(projectId)}/features`;
+  const { features } = await unleashGet<UnleashFeaturesResponse>(baseUrl, apiToken, projectId);
+
+  // Some Unleash versions omit strategies from the list endpoint; load full details when needed.
+  return Promise.all(
+    features.map(async (feature) => {
+      const needsDetails =
+        !feature.environments || feature.environments.some((env) => env.strategies === undefined);
+      if (!needsDetails) return feature;
+      return unleashGet<UnleashFeature>(
+        `${baseUrl}/${encodeURIComponent(feature.name)}`,
+        apiToken,
+        projectId
+      );
+    })
+  );
+}
+
+function isFullRolloutStrategy(strategy: UnleashStrategy): boolean {
+  if ((strategy.constraints?.length ?? 0) > 0) return false;
+  if ((strategy.segments?.length ?? 0) > 0) return false;
+
+  if (strategy.name === 'default') return true;
+  if (strategy.name === 'flexibleRollout') {
+    return Number(strategy.parameters?.rollout) === 100;
+  }
+  return false;
+}
+
+function getEnvironmentState(env: UnleashEnvironment): EnvironmentState {
+  if (!env.enabled) return 'disabled';
+
+  const activeStrategies = (env.strategies ?? []).filter((s) => !s.disabled);
+  if (activeStrategies.length === 1 && isFullRolloutStrategy(activeStrategies[0])) {
+    return 'enabled';
+  }
+  return 'complex';
+}
+
+/**
+ * The latest enable, disable or strategy change in the checked environments. Undefined when the
+ * history has none or cannot be read.
+ */
+async function fetchLastStateChange(
+  { feature, environments }: Candidate,
+  apiToken: string,
+  host: string
+): Promise<Date | undefined> {
+  const url = `${host.replace(/\/+$/, '')}/api/admin/events/${encodeURIComponent(feature.name)}`;
+  let events: UnleashEvent[];
+  try {
+    ({ events } = await unleashGet<UnleashEventsResponse>(url, apiToken, feature.project ?? ''));
+  } catch {
+    return undefined;
+  }
+
+  const names = environments.map((env) => env.name);
+  const dates = events
+    .filter((event) => STATE_CHANGE_EVENT.test(event.type))
+    .filter((event) => !event.environment || names.includes(event.environment))
+    .map((event) => new Date(event.createdAt).getTime());
+  return dates.length > 0 ? new Date(Math.max(...dates)) : undefined;
+}
+
+/**
+ * Toggles in a simple on/off state that agrees across environments
+ */
+function findCandidates(
+  features: UnleashFeature[],
+  environmentFilter: string[] | undefined,
+  staleDays: number
+): Candidate[] {
+  const staleThreshold = new Date(Date.now() - staleDays * 24 * 60 * 60 * 1000);
+  const candidates: Candidate[] = [];
+
+  for (const feature of features) {
+    if (feature.archived) continue;
+    // Nothing created within the window can have been unchanged for longer
+    if (new Date(feature.createdAt) > staleThreshold) continue;
+
+    const environments = (feature.environments ?? []).filter(
+      (env) => !environmentFilter || environmentFilter.includes(env.name)
+    );
+    if (environments.length === 0) continue;
+    if (environmentFilter && environments.length !== environmentFilter.length) continue;
+
+    const states = new Set(environments.map(getEnvironmentState));
+    // All environments must agree on a simple on/off state
+    if (states.size !== 1 || states.has('complex')) continue;
+
+    candidates.push({ feature, environments, keepBranch: states.has('enabled') ? 'enabled' : 'disabled' });
+  }
+
+  return candidates;
+}
+
+function analyzeCandidates(
+  candidates: Candidate[],
+  lastChanges: Array<Date | undefined>,
+  staleDays: number
+): FlagToRemove[] {
+  const now = new Date();
+  const staleThreshold = new Date(now.getTime() - staleDays * 24 * 60 * 60 * 1000);
+  const staleFlags: FlagToRemove[] = [];
+
+  candidates.forEach(({ feature, environments, keepBranch }, index) => {
+    const lastChange = lastChanges[index];
+    const lastSeenAt = feature.lastSeenAt ?? null;
+    if (lastChange) {
+      if (lastChange > staleThreshold) return;
+    } else {
+      const seenRecently = !lastSeenAt || new Date(lastSeenAt) > staleThreshold;
+      if (!feature.stale && seenRecently) return;
+    }
+
+    const age = lastChange
+      ? `unchanged for ${Math.floor((now.getTime() - lastChange.getTime()) / (24 * 60 * 60 * 1000))} days`
+      : 'no change history';
+    const reasonParts = [
+      keepBranch === 'enabled'
+        ? `Fully enabled in all environments (${age})`
+        : `Disabled in all environments (${age})`,
+    ];
+    if (feature.stale) reasonParts.push('marked stale in Unleash');
+    reasonParts.push(lastSeenAt ? `last seen ${lastSeenAt.split('T')[0]}` : 'never seen by SDKs');
+
+    staleFlags.push({
+      key: feature.name,
+      keepBranch,
+      reason: reasonParts.join('; '),
+      lastModified: lastChange?.toISOString(),
+      createdBy: feature.createdBy?.name ?? undefined,
+      metadata: {
+        project: feature.project,
+        environments: environments.map((env) => env.name),
+        stale: feature.stale,
+        lastSeenAt,
+      },
+    });
+  });
+
+  // Toggles marked stale in Unleash first, then the longest unchanged, then those without history
+  staleFlags.sort((a, b) => {
+    const staleDiff = Number(b.metadata?.stale === true) - Number(a.metadata?.stale === true);
+    if (staleDiff !== 0) return staleDiff;
+    const time = (flag: FlagToRemove) =>
+      flag.lastModified ? new Date(flag.lastModified).getTime() : Number.POSITIVE_INFINITY;
+    return time(a) - time(b) || 0;
+  });
+
+  return staleFlags;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { classifyFlagPRs } from '../index.ts';
+import type { ExistingPR, PRHistoryEntry } from '../../agent/git.ts';
+
+function prFor(...history: PRHistoryEntry[]): ExistingPR {
+  return { ...history[0], history };
+}
+
+const merged = (url: string): PRHistoryEntry => ({ url, state: 'MERGED', declined: false });
+const open = (url: string): PRHistoryEntry => ({ url, state: 'OPEN', declined: false });
+
+describe('classifyFlagPRs', () => {
+  it('returns flags whose PRs have merged in every repo', () => {
+    const { merged: ready, waiting } = classifyFlagPRs(
+      new Map([
+        ['web', new Map([['new-checkout', prFor(merged('https://github.com/acme/web/pull/1'))]])],
+        ['api', new Map([['new-checkout', prFor(merged('https://github.com/acme/api/pull/2'))]])],
+      ])
+    );
+
+    expect(ready).toEqual([
+      {
+        key: 'new-checkout',
+        prUrls: ['https://github.com/acme/web/pull/1', 'https://github.com/acme/api/pull/2'],
+      },
+    ]);
+    expect(waiting).toEqual([]);
+  });
+
+  it('waits while any repo still has an open PR', () => {
+    const { merged: ready, waiting } = classifyFlagPRs(
+      new Map([
+        ['web', new Map([['new-checkout', prFor(merged('https://github.com/acme/web/pull/1'))]])],
+        ['api', new Map([['new-checkout', prFor(open('https://github.com/acme/api/pull/2'))]])],
+      ])
+    );
+
+    expect(ready).toEqual([]);
+    expect(waiting).toEqual([
+      { key: 'new-checkout', reason: 'PR still open in api (https://github.com/acme/api/pull/2)' },
+    ]);
+  });
+
+  it('never finalizes declined flags and ignores flags without merged PRs', () => {
+    const declined: PRHistoryEntry = {
+      url: 'https://github.com/acme/api/pull/3',
+      state: 'CLOSED',
+      declined: true,
+    };
+    const { merged: ready, waiting } = classifyFlagPRs(
+      new Map([
+        [
+          'web',
+          new Map([
+            ['old-banner', prFor(merged('https://github.com/acme/web/pull/4'))],
+            ['dark-mode', prFor(open('https://github.com/acme/web/pull/5'))],
+          ]),
+        ],
+        ['api', new Map([['old-banner', prFor(declined)]])],
+      ])
+    );
+
+    expect(ready).toEqual([]);
+    expect(waiting).toEqual([
+      { key: 'old-banner', reason: 'Declined in api: https://github.com/acme/api/pull/3' },
+    ]);
+  });
+});
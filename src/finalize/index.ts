@@ -0,0 +1,241 @@
+/**
+ * Finalize
+ *
+ * Archives flags in their provider once every bye-bye-flag PR for them has merged.
+ *
+ * A flag is finalized when:
+ * - At least one bye-bye-flag PR for it has merged
+ * - No PR for it is still open or marked [DECLINED]
+ * - No configured repo still references it on its base branch
+ *
+ * Every provider change is appended to `<logDir>/provider-audit.jsonl`.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  archiveFlags,
+  type ArchiveResult,
+  type FetcherConfig,
+  type CompositeFetcherConfig,
+} from '../fetchers/index.ts';
+import { fetchAllFlagPRs, type ExistingPR } from '../agent/git.ts';
+import { getRepoBaseBranch, getRepoSearch } from '../agent/scaffold.ts';
+import type { ConfigContext } from '../config-context.ts';
+import { getRuntimeSettings } from '../config-context.ts';
+import { fetchAllRepos, findFlagReferences } from '../git-utils.ts';
+import { consoleLogger, type Logger } from '../types.ts';
+
+export interface FinalizeConfig {
+  configContext: ConfigContext;
+  fetcher: FetcherConfig | CompositeFetcherConfig;
+  dryRun?: boolean;
+  logger?: Logger;
+}
+
+export interface MergedFlag {
+  key: string;
+  prUrls: string[]; // Merged PRs across repos
+}
+
+export interface WaitingFlag {
+  key: string;
+  reason: string;
+}
+
+export interface FinalizeSummary {
+  dryRun: boolean;
+  results: ArchiveResult[];
+  waiting: WaitingFlag[];
+  auditLogPath?: string;
+}
+
+export const AUDIT_LOG_FILE = 'provider-audit.jsonl';
+
+/**
+ * Splits flags with bye-bye-flag PRs into those whose PRs have all merged and those still waiting
+ */
+export function classifyFlagPRs(prsByRepo: Map<string, Map<string, ExistingPR>>): {
+  merged: MergedFlag[];
+  waiting: WaitingFlag[];
+} {
+  const entriesByFlag = new Map<string, Array<{ repoName: string; pr: ExistingPR }>>();
+  for (const [repoName, prs] of prsByRepo) {
+    for (const [flagKey, pr] of prs) {
+      const entries = entriesByFlag.get(flagKey) ?? [];
+      entries.push({ repoName, pr });
+      entriesByFlag.set(flagKey, entries);
+    }
+  }
+
+  const merged: MergedFlag[] = [];
+  const waiting: WaitingFlag[] = [];
+
+  for (const [key, entries] of entriesByFlag) {
+    const history = entries.flatMap(({ repoName, pr }) =>
+      pr.history.map((entry) => ({ repoName, ...entry }))
+    );
+    const mergedPRs = history.filter((entry) => entry.state === 'MERGED');
+    if (mergedPRs.length === 0) continue;
+
+    const declined = history.find((entry) => entry.declined);
+    if (declined) {
+      waiting.push({ key, reason: `Declined in ${declined.repoName}: ${declined.url}` });
+      continue;
+    }
+
+    const open = history.filter((entry) => entry.state === 'OPEN');
+    if (open.length > 0) {
+      waiting.push({
+        key,
+        reason: `PR still open in ${open.map((entry) => `${entry.repoName} (${entry.url})`).join(', ')}`,
+      });
+      continue;
+    }
+
+    merged.push({ key, prUrls: mergedPRs.map((entry) => entry.url) });
+  }
+
+  merged.sort((a, b) => a.key.localeCompare(b.key));
+  return { merged, waiting };
+}
+
+/**
+ * Archives flags whose removal PRs have all merged
+ */
+export async function finalize(config: FinalizeConfig): Promise<FinalizeSummary> {
+  const { configContext, fetcher, dryRun = false, logger = consoleLogger } = config;
+  const { reposDir, config: byeByeConfig } = configContext;
+  const repoNames = Object.keys(byeByeConfig.repos);
+
+  logger.log('\nFetching latest from origin...');
+  await fetchAllRepos(configContext, logger);
+
+  logger.log('\nFetching bye-bye-flag PRs...');
+  const prsByRepo = new Map<string, Map<string, ExistingPR>>();
+  for (const repoName of repoNames) {
+    prsByRepo.set(repoName, await fetchAllFlagPRs(path.join(reposDir, repoName)));
+  }
+
+  const { merged, waiting } = classifyFlagPRs(prsByRepo);
+
+  // Merged PRs are not enough: make sure no repo still references the flag
+  const ready: MergedFlag[] = [];
+  for (const flag of merged) {
+    const references: string[] = [];
+    for (const repoName of repoNames) {
+      const baseBranch = getRepoBaseBranch(byeByeConfig, repoName);
+      const found = await findFlagReferences(
+        path.join(reposDir, repoName),
+        flag.key,
+        baseBranch,
+        getRepoSearch(byeByeConfig, repoName)
+      );
+      references.push(...found.map((reference) => `${repoName}/${reference.file}:${reference.line}`));
+    }
+    if (references.length > 0) {
+      waiting.push({ key: flag.key, reason: `Still referenced in ${references.join(', ')}` });
+    } else {
+      ready.push(flag);
+    }
+  }
+
+  logger.log(`\n${ready.length} flag(s) ready to archive, ${waiting.length} waiting`);
+
+  const results =
+    ready.length > 0
+      ? await archiveFlags(
+          fetcher,
+          ready.map((f) => f.key),
+          { dryRun }
+        )
+      : [];
+
+  let auditLogPath: string | undefined;
+  if (!dryRun) {
+    auditLogPath = await writeAuditLog(
+      getRuntimeSettings(byeByeConfig).logDir,
+      results,
+      new Map(ready.map((flag) => [flag.key, { trigger: 'finalize', prUrls: flag.prUrls }]))
+    );
+  }
+
+  const summary: FinalizeSummary = { dryRun, results, waiting, auditLogPath };
+  printFinalizeSummary(summary, logger);
+  return summary;
+}
+
+/**
+ * Appends one JSON line per attempted provider change, with the per-flag details that justified it
+ */
+export async function writeAuditLog(
+  logDir: string,
+  results: ArchiveResult[],
+  detailsByFlag: Map<string, Record<string, unknown>>
+): Promise<string | undefined> {
+  const timestamp = new Date().toISOString();
+  const lines = results
+    .filter((result) => result.status === 'archived' || result.status === 'failed')
+    .map((result) => JSON.stringify({ timestamp, ...result, ...detailsByFlag.get(result.flagKey) }));
+  if (lines.length === 0) return undefined;
+
+  await fs.mkdir(logDir, { recursive: true });
+  const auditLogPath = path.join(logDir, AUDIT_LOG_FILE);
+  await fs.appendFile(auditLogPath, `${lines.join('\n')}\n`);
+  return auditLogPath;
+}
+
+function printFinalizeSummary(summary: FinalizeSummary, logger: Logger): void {
+  logger.log(`\n${'═'.repeat(60)}`);
+  logger.log(summary.dryRun ? 'Finalize preview (dry run, nothing changed)' : 'Finalize summary');
+  logger.log('═'.repeat(60));
+
+  if (summary.results.length > 0) {
+    logger.log('\nProvider changes:');
+    printArchiveResults(summary.results, logger);
+  }
+
+  if (summary.waiting.length > 0) {
+    logger.log('\nWaiting:');
+    for (const flag of summary.waiting) {
+      logger.log(`  • ${flag.key}: ${flag.reason}`);
+    }
+  }
+
+  if (summary.auditLogPath) {
+    logger.log(`\nAudit log: ${summary.auditLogPath}`);
+  }
+
+  logger.log('');
+}
+
+/**
+ * Prints one line per provider change (dry-run previews also show the exact API operation)
+ */
+export function printArchiveResults(results: ArchiveResult[], logger: Logger): void {
+  const icons: Record<ArchiveResult['status'], string> = {
+    archived: '✓',
+    'would-archive': '→',
+    'not-found': '○',
+    unsupported: '⊘',
+    failed: '✗',
+  };
+  const labels: Record<ArchiveResult['status'], string> = {
+    archived: 'archived',
+    'would-archive': 'would archive',
+    'not-found': 'not found (already archived?)',
+    unsupported: 'archiving not supported yet',
+    failed: 'failed',
+  };
+
+  for (const result of results) {
+    const target = result.target ? ` ${result.target}` : '';
+    const error = result.error ? `: ${result.error}` : '';
+    logger.log(
+      `  ${icons[result.status]} ${result.flagKey} (${result.provider}${target}): ${labels[result.status]}${error}`
+    );
+    if (result.status === 'would-archive' && result.operation) {
+      logger.log(`      ${result.operation}`);
+    }
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Spellings of a flag key as it may appear in code.
+ * Shared by the reference scanner and the agent prompt.
+ */
+
+import type { KeySearchSettings, KeyTransform, KeyVariant } from './types.ts';
+
+export const KEY_TRANSFORMS = ['camelCase', 'SCREAMING_SNAKE', 'snake_case', 'PascalCase', 'dotted'] as const;
+
+// Used when a repo does not configure `search.variants`
+const DEFAULT_TRANSFORMS: KeyTransform[] = ['camelCase', 'SCREAMING_SNAKE'];
+
+export function toCamelCase(str: string): string {
+  return str.replace(/[-_.]+([a-z])/g, (_, letter) => letter.toUpperCase());
+}
+
+export function toScreamingSnake(str: string): string {
+  return str.replace(/[-_.]+/g, '_').toUpperCase();
+}
+
+const TRANSFORMS: Record<KeyTransform, (key: string) => string> = {
+  camelCase: toCamelCase,
+  SCREAMING_SNAKE: toScreamingSnake,
+  snake_case: (key) => key.replace(/[-_.]+/g, '_').toLowerCase(),
+  PascalCase: (key) => {
+    const camel = toCamelCase(key);
+    return camel.charAt(0).toUpperCase() + camel.slice(1);
+  },
+  dotted: (key) => key.replace(/[-_.]+/g, '.'),
+};
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Returns the distinct spellings to search for: the key as written (`kebab`), its transforms
+ * (camelCase and SCREAMING_SNAKE unless `search.variants` says otherwise) and constants
+ * built from `search.constantPrefixes` (e.g. `FLAG_` → `FLAG_NEW_BILLING`)
+ */
+export function getKeyVariants(
+  flagKey: string,
+  search?: KeySearchSettings
+): Array<{ variant: KeyVariant; value: string }> {
+  const variants: Array<{ variant: KeyVariant; value: string }> = [{ variant: 'kebab', value: flagKey }];
+  const add = (variant: KeyVariant, value: string) => {
+    if (!variants.some((v) => v.value === value)) variants.push({ variant, value });
+  };
+
+  for (const transform of search?.variants ?? DEFAULT_TRANSFORMS) {
+    add(transform, TRANSFORMS[transform](flagKey));
+  }
+  for (const prefix of search?.constantPrefixes ?? []) {
+    add('prefixed', `${prefix}${toScreamingSnake(flagKey)}`);
+  }
+  return variants;
+}
+
+/**
+ * Fills a `search.patterns` regex template. Placeholders (`{key}`, `{camelCase}`, `{SCREAMING_SNAKE}`,
+ * `{snake_case}`, `{PascalCase}`, `{dotted}`) become the escaped spelling of the flag key.
+ * Also returns the first spelling used, which every match must contain.
+ */
+export function compileSearchPattern(template: string, flagKey: string): { regex: RegExp; literal: string } {
+  let literal: string | undefined;
+  const source = template.replace(
+    /\{(key|camelCase|SCREAMING_SNAKE|snake_case|PascalCase|dotted)\}/g,
+    (_, name) => {
+      const value = name === 'key' ? flagKey : TRANSFORMS[name as KeyTransform](flagKey);
+      literal ??= value;
+      return escapeRegExp(value);
+    }
+  );
+  if (literal === undefined) {
+    throw new Error(`Search pattern must contain a flag key placeholder such as {key}: ${template}`);
+  }
+  return { regex: new RegExp(source), literal };
+}
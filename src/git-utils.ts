@@ -6,39 +6,139 @@ import * as path from 'path';
 import * as fs from 'fs/promises';
 import { execa } from 'execa';
 import type { ByeByeFlagConfig } from './agent/scaffold.ts';
-import { getRepoBaseBranch } from './agent/scaffold.ts';
-import type { Logger } from './types.ts';
+import { getRepoBaseBranch, getRepoSearch } from './agent/scaffold.ts';
+import { compileSearchPattern, escapeRegExp, getKeyVariants } from './flag-key.ts';
+import type { CodeReference, KeySearchSettings, Logger } from './types.ts';
 import { consoleLogger } from './types.ts';
 
+export interface GrepMatch {
+  file: string;
+  line: number;
+  text: string;
+}
+
 /**
- * Check if a flag exists in a single git repo using git grep on the configured base branch.
- * Searches for the flag key wrapped in quotes to avoid false positives like `my-flag-2`.
+ * Runs `git grep -E` against a ref and returns every matching line (binary files are skipped).
+ * Without a ref, the tracked files in the working tree are searched.
  */
-export async function flagExistsInRepo(
+export async function gitGrep(
   repoPath: string,
+  ref: string | undefined,
+  patterns: string[]
+): Promise<GrepMatch[]> {
+  const result = await execa(
+    'git',
+    [
+      'grep',
+      '-n',
+      '-I',
+      '-z',
+      '-E',
+      ...patterns.flatMap((pattern) => ['-e', pattern]),
+      ...(ref ? [ref] : []),
+    ],
+    { cwd: repoPath, reject: false }
+  );
+  // Exit code 1 means no matches
+  if (result.exitCode === 1) return [];
+  if (result.exitCode !== 0) {
+    throw new Error(`git grep failed in ${repoPath} (exit code ${result.exitCode}): ${result.stderr}`);
+  }
+
+  return result.stdout
+    .split('\n')
+    .filter(Boolean)
+    .map((entry) => {
+      // With -z: "<ref>:<file>\0<line>\0<content>" ("<file>\0..." without a ref)
+      const [location, line, ...content] = entry.split('\0');
+      const file = ref ? location.slice(ref.length + 1) : location;
+      return { file, line: Number(line), text: content.join('\0') };
+    });
+}
+
+/**
+ * Finds every line on the configured base branch that references a flag, with the matched spelling.
+ * The key as written must be wrapped in quotes (avoids false positives like `my-flag-2`);
+ * derived spellings (camelCase, SCREAMING_SNAKE, prefixed constants, ...) match as whole
+ * identifiers (e.g. `FLAGS.MY_FLAG`). `search.patterns` are matched line by line.
+ */
+export async function findFlagReferences(
+  repoPath: string,
+  flagKey: string,
+  baseBranch: string,
+  search?: KeySearchSettings
+): Promise<Array<Omit<CodeReference, 'repo'>>> {
+  return grepFlagReferences(repoPath, flagKey, `origin/${baseBranch}`, search);
+}
+
+/**
+ * Same search as `findFlagReferences`, in the working tree of each repo of a workspace.
+ * Used to see what is left after the workspace has been edited.
+ */
+export async function findWorktreeFlagReferences(
+  repos: Array<{ name: string; worktreePath: string }>,
   flagKey: string,
-  baseBranch: string
-): Promise<boolean> {
-  const escapedKey = flagKey.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  const pattern = `["'\`]${escapedKey}["'\`]`;
+  config: ByeByeFlagConfig
+): Promise<CodeReference[]> {
+  const references: CodeReference[] = [];
+  for (const repo of repos) {
+    const found = await grepFlagReferences(
+      repo.worktreePath,
+      flagKey,
+      undefined,
+      getRepoSearch(config, repo.name)
+    );
+    references.push(...found.map((reference) => ({ repo: repo.name, ...reference })));
+  }
+  return references;
+}
 
-  const result = await execa('git', ['grep', '-lE', pattern, `origin/${baseBranch}`], {
-    cwd: repoPath,
-    reject: false,
+async function grepFlagReferences(
+  repoPath: string,
+  flagKey: string,
+  ref: string | undefined,
+  search?: KeySearchSettings
+): Promise<Array<Omit<CodeReference, 'repo'>>> {
+  const variants = getKeyVariants(flagKey, search).map(({ variant, value }) => {
+    const escaped = escapeRegExp(value);
+    if (variant === 'kebab') {
+      return { variant, grep: `["'\`]${escaped}["'\`]`, regex: new RegExp(`["'\`]${escaped}["'\`]`) };
+    }
+    return {
+      variant,
+      grep: `(^|[^A-Za-z0-9_$])${escaped}([^A-Za-z0-9_$]|$)`,
+      regex: new RegExp(`(^|[^A-Za-z0-9_$])${escaped}([^A-Za-z0-9_$]|$)`),
+    };
   });
-  return result.exitCode === 0 && result.stdout.trim().length > 0;
+  // Patterns are JS regexes: pre-filter on the spelling they contain, then match in JS
+  for (const template of search?.patterns ?? []) {
+    const { regex, literal } = compileSearchPattern(template, flagKey);
+    variants.push({ variant: 'pattern', grep: escapeRegExp(literal), regex });
+  }
+
+  const matches = await gitGrep(
+    repoPath,
+    ref,
+    variants.map((v) => v.grep)
+  );
+
+  return matches.flatMap(({ file, line, text }) =>
+    variants.filter((v) => v.regex.test(text)).map(({ variant }) => ({ file, line, variant }))
+  );
 }
 
 /**
- * Check if a flag exists anywhere in the codebase by searching each configured repo.
- * Searches on `origin/<baseBranch>` so the check reflects the latest remote code.
+ * Finds references to a flag in every configured repo under the workspace.
+ * Searches on `origin/<baseBranch>` so the result reflects the latest remote code.
+ * Returns null if the workspace could not be searched.
  */
-export async function flagExistsInCodebase(
+export async function findFlagReferencesInCodebase(
   workspacePath: string,
   flagKey: string,
   config: ByeByeFlagConfig
-): Promise<boolean> {
+): Promise<CodeReference[] | null> {
   try {
+    const references: CodeReference[] = [];
     const entries = await fs.readdir(workspacePath, { withFileTypes: true });
     for (const entry of entries) {
       if (!entry.isDirectory() || entry.name.startsWith('.')) continue;
@@ -46,17 +146,20 @@ export async function flagExistsInCodebase(
       try {
         await fs.access(path.join(repoPath, '.git'));
         const baseBranch = getRepoBaseBranch(config, entry.name);
-        if (await flagExistsInRepo(repoPath, flagKey, baseBranch)) {
-          return true;
-        }
+        const found = await findFlagReferences(
+          repoPath,
+          flagKey,
+          baseBranch,
+          getRepoSearch(config, entry.name)
+        );
+        references.push(...found.map((reference) => ({ repo: entry.name, ...reference })));
       } catch {
         // Not a git repo or not configured, skip
       }
     }
-    return false;
+    return references;
   } catch {
-    // If something fails, assume the flag might exist and let the model check
-    return true;
+    return null;
   }
 }
 
@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  cleanupUnreferencedFlags,
+  trackUnreferencedFlags,
+  UNREFERENCED_STATE_FILE,
+} from '../unreferenced.ts';
+
+describe('trackUnreferencedFlags', () => {
+  const now = new Date('2024-03-15T00:00:00.000Z');
+
+  it('starts the grace period for new flags and keeps earlier sightings', () => {
+    const { state, eligible, pending } = trackUnreferencedFlags(
+      { 'old-banner': { firstSeenAt: '2024-03-01T00:00:00.000Z' } },
+      ['old-banner', 'new-checkout'],
+      14,
+      now
+    );
+
+    expect(eligible).toEqual(['old-banner']);
+    expect(pending).toEqual([
+      {
+        key: 'new-checkout',
+        firstSeenAt: '2024-03-15T00:00:00.000Z',
+        eligibleAt: '2024-03-29T00:00:00.000Z',
+      },
+    ]);
+    expect(state).toEqual({
+      'new-checkout': { firstSeenAt: '2024-03-15T00:00:00.000Z' },
+      'old-banner': { firstSeenAt: '2024-03-01T00:00:00.000Z' },
+    });
+  });
+
+  it('forgets flags that are referenced again', () => {
+    const { state, eligible } = trackUnreferencedFlags(
+      { 'old-banner': { firstSeenAt: '2024-01-01T00:00:00.000Z' } },
+      [],
+      14,
+      now
+    );
+
+    expect(state).toEqual({});
+    expect(eligible).toEqual([]);
+  });
+});
+
+describe('cleanupUnreferencedFlags', () => {
+  let logDir: string;
+  const logger = { log: vi.fn(), error: vi.fn() };
+
+  beforeEach(async () => {
+    logDir = await fs.mkdtemp(path.join(os.tmpdir(), 'bye-bye-flag-unreferenced-'));
+    logger.log.mockClear();
+  });
+
+  afterEach(async () => {
+    await fs.rm(logDir, { recursive: true, force: true });
+  });
+
+  it('records sightings across runs and keeps flags the provider cannot archive', async () => {
+    const options = {
+      fetcher: { type: 'unleash' as const, host: 'https://unleash.example.com', projectIds: ['default'] },
+      flagKeys: ['old-banner'],
+      graceDays: 0,
+      logDir,
+      dryRun: false,
+      logger,
+    };
+
+    const first = await cleanupUnreferencedFlags(options);
+    const statePath = path.join(logDir, UNREFERENCED_STATE_FILE);
+    const { 'old-banner': sighting } = JSON.parse(await fs.readFile(statePath, 'utf-8'));
+
+    expect(first.results).toEqual([{ flagKey: 'old-banner', provider: 'unleash', status: 'unsupported' }]);
+    expect(first.auditLogPath).toBeUndefined();
+
+    await cleanupUnreferencedFlags(options);
+    expect(JSON.parse(await fs.readFile(statePath, 'utf-8'))).toEqual({ 'old-banner': sighting });
+  });
+});
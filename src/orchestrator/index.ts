@@ -7,22 +7,29 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { execa } from 'execa';
-import { z } from 'zod';
-import { fetchFlags, type FlagToRemove, type FetcherConfig } from '../fetchers/index.ts';
+import {
+  fetchFlags,
+  describeFetcher,
+  type FlagToRemove,
+  type FetcherConfig,
+  type CompositeFetcherConfig,
+} from '../fetchers/index.ts';
+import { FlagToRemoveSchema, formatSchemaIssues } from '../fetchers/schema.ts';
 import { removeFlag } from '../agent/index.ts';
 import { fetchAllFlagPRs, findExistingPR, type ExistingPR } from '../agent/git.ts';
-import { getRepoBaseBranch, readWorkspaceMetadata } from '../agent/scaffold.ts';
+import { getRepoBaseBranch, getRepoSearch, readWorkspaceMetadata } from '../agent/scaffold.ts';
 import { createRunLogger, type FlagLogger, type LogStatus } from './logger.ts';
-import type { RemovalResult } from '../types.ts';
+import { cleanupUnreferencedFlags, type UnreferencedCleanup } from './unreferenced.ts';
+import type { CodeReference, RemovalResult } from '../types.ts';
 import { consoleLogger, type Logger } from '../types.ts';
 import { CONFIG } from '../config.ts';
 import type { ConfigContext, RuntimeSettings } from '../config-context.ts';
 import { getRuntimeSettings } from '../config-context.ts';
-import { flagExistsInRepo, fetchAllRepos } from '../git-utils.ts';
+import { findFlagReferences, fetchAllRepos } from '../git-utils.ts';
 
 export interface OrchestratorConfig {
   configContext: ConfigContext;
-  fetcher: FetcherConfig;
+  fetcher: FetcherConfig | CompositeFetcherConfig;
   dryRun?: boolean;
 }
 
@@ -35,6 +42,7 @@ export interface FlagResult {
   durationMs?: number;
   skippedReason?: string;
   createdBy?: string; // Flag creator (for reporting)
+  references?: CodeReference[]; // Code references that got the flag picked up
 }
 
 export interface RunSummary {
@@ -61,9 +69,10 @@ export interface RunSummary {
   };
   flags: FlagResult[];
   logDir: string;
+  unreferencedCleanup?: UnreferencedCleanup;
 }
 
-type FlagWithCodeReferences = FlagToRemove & { reposWithCode: string[] };
+type FlagWithCodeReferences = FlagToRemove & { reposWithCode: string[]; references: CodeReference[] };
 
 async function findExactExistingPRsForFlag(
   flagKey: string,
@@ -114,7 +123,11 @@ async function filterFlagsWithCodeReferences(
   flags: FlagToRemove[],
   configContext: ConfigContext,
   logger: Logger
-): Promise<{ flagsWithCode: FlagWithCodeReferences[]; flagsWithoutCode: FlagResult[] }> {
+): Promise<{
+  flagsWithCode: FlagWithCodeReferences[];
+  flagsWithoutCode: FlagResult[];
+  uncheckedFlags: Set<string>; // Flags whose code search failed in at least one repo
+}> {
   const { reposDir, config } = configContext;
   const repoNames = Object.keys(config.repos);
 
@@ -122,6 +135,7 @@ async function filterFlagsWithCodeReferences(
 
   const flagsWithCode: FlagWithCodeReferences[] = [];
   const flagsWithoutCode: FlagResult[] = [];
+  const uncheckedFlags = new Set<string>();
 
   const baseBranchByRepo = new Map<string, string>();
   for (const repoName of repoNames) {
@@ -135,8 +149,9 @@ async function filterFlagsWithCodeReferences(
     const results = await Promise.all(
       batch.map(async (flag) => {
         const reposWithCode: string[] = [];
+        const references: CodeReference[] = [];
 
-        // Check if flag exists in any repo
+        // Collect references in every repo
         for (const repoName of repoNames) {
           const repoPath = path.join(reposDir, repoName);
           try {
@@ -144,21 +159,29 @@ async function filterFlagsWithCodeReferences(
             if (!baseBranch) {
               throw new Error(`Missing baseBranch configuration for repo "${repoName}"`);
             }
-            if (await flagExistsInRepo(repoPath, flag.key, baseBranch)) {
+            const found = await findFlagReferences(
+              repoPath,
+              flag.key,
+              baseBranch,
+              getRepoSearch(config, repoName)
+            );
+            if (found.length > 0) {
               reposWithCode.push(repoName);
+              references.push(...found.map((reference) => ({ repo: repoName, ...reference })));
             }
           } catch {
             // Skip repos we can't check
+            uncheckedFlags.add(flag.key);
           }
         }
 
-        return { flag, reposWithCode };
+        return { flag, reposWithCode, references };
       })
     );
 
-    for (const { flag, reposWithCode } of results) {
+    for (const { flag, reposWithCode, references } of results) {
       if (reposWithCode.length > 0) {
-        flagsWithCode.push({ ...flag, reposWithCode });
+        flagsWithCode.push({ ...flag, reposWithCode, references });
       } else {
         logger.log(`  ○ ${flag.key}: No code references`);
         flagsWithoutCode.push({
@@ -171,7 +194,7 @@ async function filterFlagsWithCodeReferences(
     }
   }
 
-  return { flagsWithCode, flagsWithoutCode };
+  return { flagsWithCode, flagsWithoutCode, uncheckedFlags };
 }
 
 /**
@@ -503,7 +526,7 @@ async function processFlags(
   }
 
   // Process a single flag, returns the number of PRs created
-  const processOneFlag = async (flag: FlagToRemove): Promise<number> => {
+  const processOneFlag = async (flag: FlagWithCodeReferences): Promise<number> => {
     const flagStartTime = Date.now();
     let flagLogger: FlagLogger | null = null;
 
@@ -513,11 +536,14 @@ async function processFlags(
       logger.log(
         `▶ Starting (${agentKind}): ${flag.key} (${config.maxPrs - remainingPrBudget}/${config.maxPrs} PRs reserved)`
       );
-      logger.log(`    Keep: ${flag.keepBranch} | Worktree: ${worktreePath}`);
+      logger.log(
+        `    Keep: ${flag.keepVariant ? `variant ${flag.keepVariant}` : flag.keepBranch} | Worktree: ${worktreePath}`
+      );
       logger.log(`    Log: ${flagLogger.path}`);
       flagLogger.log(`Starting removal of flag: ${flag.key}`);
       flagLogger.log(`Agent: ${agentKind}`);
       flagLogger.log(`Keep branch: ${flag.keepBranch}`);
+      if (flag.keepVariant) flagLogger.log(`Keep variant: ${flag.keepVariant}`);
       if (flag.reason) flagLogger.log(`Reason: ${flag.reason}`);
 
       const exactExistingPRs = await findExactExistingPRsForFlag(flag.key, configContext);
@@ -532,6 +558,7 @@ async function processFlags(
           skippedReason,
           durationMs: Date.now() - flagStartTime,
           createdBy: flag.createdBy,
+          references: flag.references,
         });
         consecutiveFailures = 0;
         return 0;
@@ -548,6 +575,7 @@ async function processFlags(
           skippedReason,
           durationMs: Date.now() - flagStartTime,
           createdBy: flag.createdBy,
+          references: flag.references,
         });
         consecutiveFailures = 0;
         return 0;
@@ -556,8 +584,15 @@ async function processFlags(
       const result = await removeFlag({
         flagKey: flag.key,
         keepBranch: flag.keepBranch,
+        keepVariant: flag.keepVariant,
         configContext,
         flagCreatedBy: flag.createdBy,
+        flagReason: flag.reason,
+        flagLastModified: flag.lastModified,
+        flagMetadata: flag.metadata,
+        flagLastEvaluatedAt:
+          typeof flag.metadata?.lastEvaluatedAt === 'string' ? flag.metadata.lastEvaluatedAt : undefined,
+        codeReferences: flag.references,
         dryRun: config.dryRun,
         skipFetch: true,
         logger: createLoggerFromFlagLogger(flagLogger),
@@ -585,6 +620,7 @@ async function processFlags(
           prUrls,
           durationMs,
           createdBy: flag.createdBy,
+          references: flag.references,
         });
         return prUrls.length;
       } else if (result.status === 'refused') {
@@ -598,6 +634,7 @@ async function processFlags(
           skippedReason: result.refusalReason,
           durationMs,
           createdBy: flag.createdBy,
+          references: flag.references,
         });
         return 0;
       } else {
@@ -611,6 +648,7 @@ async function processFlags(
           error: result.error,
           durationMs,
           createdBy: flag.createdBy,
+          references: flag.references,
         });
         if (consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
           logger.log(
@@ -635,6 +673,7 @@ async function processFlags(
         error: errorMsg,
         durationMs,
         createdBy: flag.createdBy,
+        references: flag.references,
       });
       if (consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
         logger.log(`\n⚠ Stopping: ${MAX_CONSECUTIVE_FAILURES} consecutive failures (likely systemic issue)`);
@@ -712,35 +751,22 @@ function createLoggerFromFlagLogger(flagLogger: FlagLogger) {
   };
 }
 
-/**
- * Zod schema for validating --input flag files
- */
-const FlagToRemoveSchema = z.array(
-  z.object({
-    key: z.string().min(1),
-    keepBranch: z.enum(['enabled', 'disabled']),
-    reason: z.string().optional(),
-    lastModified: z.string().optional(),
-    createdBy: z.string().optional(),
-    metadata: z.record(z.unknown()).optional(),
-  })
-);
-
 /**
  * Run the orchestrator with flags from a fetcher
  */
 export async function run(config: OrchestratorConfig): Promise<RunSummary> {
   // Fetch flags from feature flag system
-  if (config.fetcher.type === 'manual') {
+  const fetchers = Array.isArray(config.fetcher) ? config.fetcher : [config.fetcher];
+  if (fetchers.some((fetcher) => fetcher.type === 'manual')) {
     throw new Error('Manual fetcher requires --input flag');
   }
 
   const logger = consoleLogger;
   logger.log('\nFetching stale flags...');
-  const flags = await fetchFlags(config.fetcher);
+  const flags = await fetchFlags(config.fetcher, { reposDir: config.configContext.reposDir });
   logger.log(`Fetched ${flags.length} stale flags\n`);
 
-  return runWithFlags(config, flags, config.fetcher.type, logger);
+  return runWithFlags(config, flags, describeFetcher(config.fetcher), logger);
 }
 
 /**
@@ -759,8 +785,7 @@ export async function runWithInput(
 
   const result = FlagToRemoveSchema.safeParse(parsed);
   if (!result.success) {
-    const issues = result.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`).join('\n');
-    throw new Error(`Invalid input file: ${config.inputFile}\n${issues}`);
+    throw new Error(`Invalid input file: ${config.inputFile}\n${formatSchemaIssues(result.error)}`);
   }
 
   const fullConfig: OrchestratorConfig = {
@@ -842,7 +867,7 @@ async function runWithFlags(
   }
 
   // Filter out flags with no code references
-  const { flagsWithCode, flagsWithoutCode } = await filterFlagsWithCodeReferences(
+  const { flagsWithCode, flagsWithoutCode, uncheckedFlags } = await filterFlagsWithCodeReferences(
     flagsAfterPrCheck,
     configContext,
     logger
@@ -853,18 +878,30 @@ async function runWithFlags(
     `  ${flagsWithCode.length} flags have code references (${flagsWithoutCode.length} have no code)\n`
   );
 
+  let unreferencedCleanup: UnreferencedCleanup | undefined;
+  if (runtime.deleteUnreferencedFlags) {
+    const fetchers = Array.isArray(config.fetcher) ? config.fetcher : [config.fetcher];
+    if (fetchers.some((fetcher) => fetcher.type === 'manual')) {
+      logger.log('Skipping unreferenced flag cleanup: flags from --input have no provider to archive in\n');
+    } else {
+      // Never archive a flag because a repo could not be searched
+      unreferencedCleanup = await cleanupUnreferencedFlags({
+        fetcher: config.fetcher,
+        flagKeys: flagsWithoutCode.map((f) => f.key).filter((key) => !uncheckedFlags.has(key)),
+        graceDays: runtime.deleteUnreferencedFlags.graceDays,
+        logDir,
+        dryRun,
+        logger,
+      });
+    }
+  }
+
   if (flagsWithCode.length === 0) {
     logger.log('No flags with code references to process. Nothing to do.');
-    const summary = createSummary(
-      startTime,
-      fetcherLabel,
-      flags,
-      allSkipped,
-      runLogger.runDir,
-      0,
-      runtime,
-      dryRun
-    );
+    const summary: RunSummary = {
+      ...createSummary(startTime, fetcherLabel, flags, allSkipped, runLogger.runDir, 0, runtime, dryRun),
+      unreferencedCleanup,
+    };
     await runLogger.writeSummary(summary);
     return summary;
   }
@@ -879,16 +916,19 @@ async function runWithFlags(
   );
 
   // Generate summary
-  const summary = createSummary(
-    startTime,
-    fetcherLabel,
-    flags,
-    results,
-    runLogger.runDir,
-    remaining.length,
-    runtime,
-    dryRun
-  );
+  const summary: RunSummary = {
+    ...createSummary(
+      startTime,
+      fetcherLabel,
+      flags,
+      results,
+      runLogger.runDir,
+      remaining.length,
+      runtime,
+      dryRun
+    ),
+    unreferencedCleanup,
+  };
   await runLogger.writeSummary(summary);
 
   // Print summary
@@ -0,0 +1,156 @@
+/**
+ * Unreferenced flag cleanup
+ *
+ * Archives stale flags that no configured repo references once they have stayed
+ * unreferenced for `orchestrator.deleteUnreferencedFlags.graceDays`.
+ *
+ * - First sightings are tracked across runs in `<logDir>/unreferenced-flags.json`
+ * - A flag that regains code references (or is no longer reported as stale) drops out of
+ *   tracking, so its grace period starts over if it shows up again
+ * - Every provider change is appended to the shared provider audit log
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  archiveFlags,
+  type ArchiveResult,
+  type CompositeFetcherConfig,
+  type FetcherConfig,
+} from '../fetchers/index.ts';
+import { printArchiveResults, writeAuditLog } from '../finalize/index.ts';
+import type { Logger } from '../types.ts';
+
+export const UNREFERENCED_STATE_FILE = 'unreferenced-flags.json';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type UnreferencedState = Record<string, { firstSeenAt: string }>;
+
+export interface PendingFlag {
+  key: string;
+  firstSeenAt: string;
+  eligibleAt: string;
+}
+
+export interface UnreferencedCleanup {
+  graceDays: number;
+  results: ArchiveResult[];
+  pending: PendingFlag[];
+  auditLogPath?: string;
+}
+
+export interface UnreferencedCleanupOptions {
+  fetcher: FetcherConfig | CompositeFetcherConfig;
+  flagKeys: string[]; // Flags without code references in this run
+  graceDays: number;
+  logDir: string;
+  dryRun: boolean;
+  logger: Logger;
+}
+
+/**
+ * Carries first sightings over from the previous run and splits flags into those past
+ * their grace period and those still waiting
+ */
+export function trackUnreferencedFlags(
+  previous: UnreferencedState,
+  flagKeys: string[],
+  graceDays: number,
+  now: Date
+): { state: UnreferencedState; eligible: string[]; pending: PendingFlag[] } {
+  const state: UnreferencedState = {};
+  const eligible: string[] = [];
+  const pending: PendingFlag[] = [];
+
+  for (const key of [...new Set(flagKeys)].sort()) {
+    const firstSeenAt = previous[key]?.firstSeenAt ?? now.toISOString();
+    state[key] = { firstSeenAt };
+
+    const eligibleAt = new Date(Date.parse(firstSeenAt) + graceDays * DAY_MS);
+    if (eligibleAt.getTime() <= now.getTime()) {
+      eligible.push(key);
+    } else {
+      pending.push({ key, firstSeenAt, eligibleAt: eligibleAt.toISOString() });
+    }
+  }
+
+  return { state, eligible, pending };
+}
+
+/**
+ * Archives flags that have stayed unreferenced past the grace period (previews them in dry-run)
+ */
+export async function cleanupUnreferencedFlags(
+  options: UnreferencedCleanupOptions
+): Promise<UnreferencedCleanup> {
+  const { fetcher, flagKeys, graceDays, logDir, dryRun, logger } = options;
+  const statePath = path.join(logDir, UNREFERENCED_STATE_FILE);
+
+  const { state, eligible, pending } = trackUnreferencedFlags(
+    await readState(statePath),
+    flagKeys,
+    graceDays,
+    new Date()
+  );
+
+  const results = eligible.length > 0 ? await archiveFlags(fetcher, eligible, { dryRun }) : [];
+  const auditDetails = new Map(
+    eligible.map((key) => [key, { trigger: 'unreferenced', unreferencedSince: state[key].firstSeenAt }])
+  );
+
+  // Stop tracking flags that are gone from every provider location; keep the rest so failures retry
+  if (!dryRun) {
+    for (const key of eligible) {
+      const flagResults = results.filter((result) => result.flagKey === key);
+      if (flagResults.every((result) => result.status === 'archived' || result.status === 'not-found')) {
+        delete state[key];
+      }
+    }
+  }
+
+  await fs.mkdir(logDir, { recursive: true });
+  await fs.writeFile(statePath, `${JSON.stringify(state, null, 2)}\n`);
+
+  let auditLogPath: string | undefined;
+  if (!dryRun) {
+    auditLogPath = await writeAuditLog(logDir, results, auditDetails);
+  }
+
+  const cleanup: UnreferencedCleanup = { graceDays, results, pending, auditLogPath };
+  printUnreferencedCleanup(cleanup, dryRun, logger);
+  return cleanup;
+}
+
+async function readState(statePath: string): Promise<UnreferencedState> {
+  let content: string;
+  try {
+    content = await fs.readFile(statePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw error;
+  }
+
+  try {
+    return JSON.parse(content) as UnreferencedState;
+  } catch {
+    throw new Error(`Failed to parse unreferenced flag state as JSON: ${statePath}`);
+  }
+}
+
+function printUnreferencedCleanup(cleanup: UnreferencedCleanup, dryRun: boolean, logger: Logger): void {
+  if (cleanup.results.length === 0 && cleanup.pending.length === 0) return;
+
+  const mode = dryRun ? ', dry run' : '';
+  logger.log(`\nUnreferenced flag cleanup (grace period: ${cleanup.graceDays} days${mode}):`);
+  printArchiveResults(cleanup.results, logger);
+  for (const flag of cleanup.pending) {
+    logger.log(
+      `  • ${flag.key}: unreferenced since ${flag.firstSeenAt.slice(0, 10)}, archiving from ${flag.eligibleAt.slice(0, 10)}`
+    );
+  }
+  if (cleanup.auditLogPath) {
+    logger.log(`  Audit log: ${cleanup.auditLogPath}`);
+  }
+  logger.log('');
+}
@@ -17,9 +17,56 @@ export const consoleLogger: Logger = {
   error: (message: string) => console.error(message),
 };
 
+/**
+ * Spelling of a flag key matched in code: `kebab` is the key exactly as the provider spells it,
+ * `prefixed` a `search.constantPrefixes` constant and `pattern` a `search.patterns` match
+ */
+export type KeyVariant = 'kebab' | KeyTransform | 'prefixed' | 'pattern';
+
+/**
+ * Derived spellings of a flag key that can be enabled per repo (`repos.<name>.search.variants`)
+ */
+export type KeyTransform = 'camelCase' | 'SCREAMING_SNAKE' | 'snake_case' | 'PascalCase' | 'dotted';
+
+/**
+ * How to find a flag in one repo (`repos.<name>.search` / `repoDefaults.search`)
+ */
+export interface KeySearchSettings {
+  variants?: KeyTransform[]; // Replaces the default camelCase + SCREAMING_SNAKE
+  constantPrefixes?: string[]; // e.g. `FLAG_` to find `FLAG_NEW_BILLING`
+  patterns?: string[]; // Regex templates with a flag key placeholder, e.g. `flags\.{snake_case}\b`
+}
+
+/**
+ * One line of code that references a flag, found on the repo's base branch
+ */
+export interface CodeReference {
+  repo: string;
+  file: string;
+  line: number;
+  variant: KeyVariant;
+}
+
+/**
+ * Checks bye-bye-flag runs itself after the agent (`repos.<name>.verify`)
+ */
+export type VerifyCheck = 'typecheck' | 'lint' | 'test';
+
+/**
+ * One verify command run in a worktree
+ */
+export interface VerificationResult {
+  check: VerifyCheck;
+  command: string;
+  exitCode?: number; // Undefined when the command was killed
+  timedOut: boolean;
+  output: string; // stdout and stderr, clipped to the last few thousand characters
+}
+
 export interface RemovalRequest {
   flagKey: string;
   keepBranch: 'enabled' | 'disabled';
+  keepVariant?: string; // Multivariate flags: collapse comparisons to this variant
   dryRun?: boolean;
   keepWorktree?: boolean; // Don't cleanup worktree (for manual inspection)
 }
@@ -49,7 +96,7 @@ export interface RemovalResult {
   error?: string;
 }
 
-export type BuiltInAgentKind = 'claude' | 'codex';
+export type BuiltInAgentKind = 'claude' | 'codex' | 'codemod';
 export type AgentKind = BuiltInAgentKind | (string & {});
 
 // Schema for validating the agent's structured output
@@ -70,3 +117,12 @@ export const AgentOutputSchema = z.object({
 });
 
 export type AgentOutput = z.infer<typeof AgentOutputSchema>;
+
+// Schema for the reviewer agent's verdict on a removal diff
+export const ReviewVerdictSchema = z.object({
+  verdict: z.enum(['approve', 'request-changes']),
+  summary: z.string(),
+  reasons: z.array(z.string()),
+});
+
+export type ReviewVerdict = z.infer<typeof ReviewVerdictSchema>;